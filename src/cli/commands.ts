@@ -1,11 +1,30 @@
 import { ProfileManager } from '../core/profile-manager';
-import { FlashNetWalletManager } from '../core/flashnet-wallet-manager';
+import { FlashNetWalletManager, FlashNetWallet } from '../core/flashnet-wallet-manager';
 import { FlashNetClient } from '../services/flashnet-client';
 import { NetworkDetector } from '../core/network-detector';
+import { SnipeEngine, SnipeExecutionEvent } from '../core/snipe-engine';
+import { PoolWatcher, PoolCreatedEvent } from '../core/pool-watcher';
+import { PositionMonitor } from '../core/position-monitor';
+import { SnipeScheduler, ScheduledArmEvent, ScheduledFireEvent } from '../core/snipe-scheduler';
+import { BondingMonitor, BondingTriggerEvent, PoolGraduatedEvent } from '../core/bonding-monitor';
+import { ExecutionJournal } from '../core/execution-journal';
+import { BudgetGuard } from '../core/budget-guard';
+import { SnipeStateMachine } from '../core/snipe-state-machine';
+import { SnipeWallets } from '../core/snipe-wallets';
+import { SnipeSettings, ResolvedSettings } from '../core/snipe-settings';
+import { PoolResolver } from '../core/pool-resolver';
+import { DiscordNotifier } from '../services/discord-notifier';
 import { ValidationService } from '../utils/validation';
 import { TokenResolver } from '../utils/token-resolver';
+import { config } from '../utils/config';
+import { QuoteEngine } from '../utils/quote-engine';
 import { CommandResult, ValidationResult } from '../types/cli';
-import { Profile, Snipe } from '../types/profile';
+import {
+  Profile, Snipe, SnipeResult, SnipeWallet, PoolData, PriceLimits, TrancheSchedule, SlippageSchedule, BondingTrigger,
+  SnipeSettingsOverrides
+} from '../types/profile';
+import { ExitRules } from '../types/position';
+import { BTC_ASSET_ADDRESS, BackendPool } from '../types/backend';
 import chalk from 'chalk';
 
 export class CommandHandler {
@@ -13,15 +32,39 @@ export class CommandHandler {
   private walletManager: FlashNetWalletManager;
   private flashnetClient: FlashNetClient;
   private networkDetector: NetworkDetector;
+  private poolWatcher: PoolWatcher;
+  private positionMonitor: PositionMonitor;
+  private snipeScheduler: SnipeScheduler;
+  private bondingMonitor: BondingMonitor;
   private tokenResolver: TokenResolver;
+  private snipeEngine: SnipeEngine;
+  private budgetGuard: BudgetGuard;
+  private poolResolver: PoolResolver;
+  private discordNotifier: DiscordNotifier;
   private currentProfile?: Profile;
+  private baseDir: string;
+  private isArmed = false;
+  private executedSnipeIds: Set<string> = new Set();
+  private unreconciledSnipeIds: Set<string> = new Set();
+  private reconciledSnipeIds: Set<string> = new Set();
 
   constructor(baseDir: string) {
+    this.baseDir = baseDir;
     this.profileManager = new ProfileManager(baseDir);
     this.walletManager = new FlashNetWalletManager();
     this.flashnetClient = new FlashNetClient();
     this.networkDetector = new NetworkDetector();
+    this.poolWatcher = new PoolWatcher();
+    this.positionMonitor = new PositionMonitor(baseDir, {
+      resolveSettings: (snipe, settings) => this.snipeEngine.resolveSettings(snipe, settings)
+    });
+    this.snipeScheduler = new SnipeScheduler();
+    this.bondingMonitor = new BondingMonitor();
+    this.budgetGuard = new BudgetGuard(baseDir);
+    this.poolResolver = new PoolResolver(this.walletManager);
     this.tokenResolver = new TokenResolver();
+    this.snipeEngine = this.createSnipeEngine(false);
+    this.discordNotifier = new DiscordNotifier();
   }
 
   /**
@@ -71,9 +114,15 @@ export class CommandHandler {
 
       this.currentProfile = profile;
 
+      // Settle swaps a previous session left unfinished before anything can execute
+      const journalNote = await this.reconcileJournal(profile);
+
+      // Resume exit monitoring for positions left open by a previous session
+      await this.positionMonitor.startMonitoring(profile);
+
       return {
         success: true,
-        message: `🔄 Switched to profile: ${chalk.cyan(name)}`,
+        message: `🔄 Switched to profile: ${chalk.cyan(name)}${journalNote}`,
         data: profile
       };
     } catch (error) {
@@ -137,7 +186,7 @@ export class CommandHandler {
   /**
    * Add a snipe to current profile
    */
-  public async addSnipe(tokenAddress: string, amountBtc: string): Promise<CommandResult> {
+  public async addSnipe(tokenAddress: string, amountBtc: string, walletCount: number = 1): Promise<CommandResult> {
     try {
       if (!this.currentProfile) {
         return { success: false, error: 'No profile selected. Use switch-profile first.' };
@@ -154,6 +203,10 @@ export class CommandHandler {
         return { success: false, error: amountValidation.error };
       }
 
+      if (!Number.isInteger(walletCount) || walletCount < 1 || walletCount > SnipeWallets.MAX_WALLETS) {
+        return { success: false, error: `Wallet count must be a whole number between 1 and ${SnipeWallets.MAX_WALLETS}` };
+      }
+
       // Resolve token to hex identifier and find pool
       console.log(chalk.gray('🔍 Resolving token and searching for pools...'));
       const tokenInfo = await this.tokenResolver.resolveToken(tokenAddress);
@@ -173,15 +226,18 @@ export class CommandHandler {
       );
 
       // Generate FlashNet wallet for this snipe
-      const wallet = await this.walletManager.generateWallet({
-        network: this.currentProfile.settings.network
-      });
+      const { network } = this.getEffectiveSettings(snipe);
+      const wallet = await this.walletManager.generateWallet({ network });
 
       // Update snipe with wallet information
       snipe.walletAddress = wallet.address;
       snipe.bitcoinAddress = wallet.bitcoinAddress; // Bitcoin Taproot address for funding
       snipe.encryptedMnemonic = wallet.encryptedMnemonic!; // FlashNet wallet mnemonic
-      snipe.status = 'VALIDATED';
+      this.walletManager.releaseWallet(wallet); // Restored again from the mnemonic when needed
+      if (walletCount > 1) {
+        snipe.fanOutWallets = await this.generateFanOutWallets(walletCount - 1, network);
+      }
+      SnipeStateMachine.transition(snipe, 'VALIDATED', 'Wallet generated');
 
       // Save updated profile
       const reloadedProfile = await this.profileManager.loadProfile(this.currentProfile.name);
@@ -194,14 +250,10 @@ export class CommandHandler {
         }
       }
 
-      const walletInfo = wallet.bitcoinAddress 
-        ? `   Spark:   ${chalk.cyan(wallet.address)}\n` +
-          `   Bitcoin: ${chalk.hex('#FFA500')(wallet.bitcoinAddress)} ← Fund this address`
-        : `   Wallet: ${chalk.cyan(wallet.address)}`;
-
       return {
         success: true,
-        message: `📍 Added snipe: ${chalk.yellow(tokenAddress.substring(0, 10))}... → ${chalk.green(amountBtc)} BTC\n${walletInfo}`,
+        message: `📍 Added snipe: ${chalk.yellow(tokenAddress.substring(0, 10))}... → ${chalk.green(amountBtc)} BTC\n` +
+          this.formatFundingInfo(SnipeWallets.list(snipe), snipe.amountBtc),
         data: { snipe, wallet: { address: wallet.address, bitcoinAddress: wallet.bitcoinAddress } }
       };
     } catch (error) {
@@ -212,6 +264,104 @@ export class CommandHandler {
     }
   }
 
+  /**
+   * Grow a snipe to a number of wallets that its amount is split across
+   */
+  public async setSnipeWalletCount(index: string, walletCount: string): Promise<CommandResult> {
+    try {
+      if (!this.currentProfile) {
+        return { success: false, error: 'No profile selected. Use switch-profile first.' };
+      }
+
+      const validation = ValidationService.validateSnipeIndex(index, this.currentProfile.snipes.length);
+      if (!validation.valid) {
+        return { success: false, error: validation.error };
+      }
+
+      const snipeIndex = parseInt(index, 10) - 1;
+      const snipe = this.currentProfile.snipes[snipeIndex];
+      if (!snipe) {
+        return { success: false, error: 'Snipe not found' };
+      }
+
+      const current = SnipeWallets.list(snipe).length;
+      const count = Number(walletCount);
+      if (!Number.isInteger(count) || count > SnipeWallets.MAX_WALLETS) {
+        return { success: false, error: `Wallet count must be a whole number up to ${SnipeWallets.MAX_WALLETS}` };
+      }
+
+      // Dropping a wallet would throw away its keys along with any funds it holds
+      if (count <= current) {
+        return { success: false, error: `Snipe already has ${current} wallets, wallets can only be added` };
+      }
+
+      if (snipe.status === 'EXECUTING' || snipe.status === 'RETRYING') {
+        return { success: false, error: 'Cannot add wallets while the snipe is executing' };
+      }
+
+      // Exits sell from a single wallet
+      if (snipe.exitRules) {
+        return { success: false, error: 'Snipes with exit rules cannot be split across several wallets, clear the exit rules first' };
+      }
+
+      const { network } = this.getEffectiveSettings(snipe);
+      const wallets = await this.generateFanOutWallets(count - current, network);
+      const updatedSnipe = await this.profileManager.addSnipeWallets(this.currentProfile.name, snipe.id, wallets);
+
+      // Reload profile to get updated data
+      const reloadedProfile = await this.profileManager.loadProfile(this.currentProfile.name);
+      this.currentProfile = reloadedProfile || undefined;
+
+      return {
+        success: true,
+        message: `🪭 Snipe ${chalk.yellow(snipe.tokenAddress.substring(0, 10))}... now splits across ${chalk.cyan(count)} wallets\n` +
+          this.formatFundingInfo(SnipeWallets.list(updatedSnipe), updatedSnipe.amountBtc),
+        data: { snipe: updatedSnipe, wallets }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to add wallets'
+      };
+    }
+  }
+
+  /**
+   * Generate the extra wallets of a fan-out snipe
+   */
+  private async generateFanOutWallets(count: number, network: 'MAINNET' | 'REGTEST'): Promise<SnipeWallet[]> {
+    const wallets: SnipeWallet[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const wallet = await this.walletManager.generateWallet({ network });
+      wallets.push({
+        address: wallet.address,
+        bitcoinAddress: wallet.bitcoinAddress,
+        encryptedMnemonic: wallet.encryptedMnemonic!
+      });
+      this.walletManager.releaseWallet(wallet);
+    }
+
+    return wallets;
+  }
+
+  /**
+   * Describe where to fund each wallet of a snipe and with how much
+   */
+  private formatFundingInfo(wallets: SnipeWallet[], amountBtc: string): string {
+    const amounts = SnipeWallets.splitAmount(Math.floor(parseFloat(amountBtc) * 100000000), wallets.length);
+
+    return wallets.map((wallet, index) => {
+      const share = wallets.length > 1 ? ` (${((amounts[index] || 0) / 100000000).toFixed(8)} BTC)` : '';
+      const heading = wallets.length > 1 ? `   Wallet ${index + 1}${share}\n` : '';
+
+      return wallet.bitcoinAddress
+        ? `${heading}   Spark:   ${chalk.cyan(wallet.address)}\n` +
+          `   Bitcoin: ${chalk.hex('#FFA500')(wallet.bitcoinAddress)} ← Fund this address`
+        : `${heading}   Wallet: ${chalk.cyan(wallet.address)}`;
+    }).join('\n');
+  }
+
   /**
    * List snipes in current profile
    */
@@ -279,6 +429,52 @@ export class CommandHandler {
     }
   }
 
+  /**
+   * Reset a snipe so it can be tested and executed again
+   */
+  public async resetSnipe(index: string): Promise<CommandResult> {
+    try {
+      if (!this.currentProfile) {
+        return { success: false, error: 'No profile selected. Use switch-profile first.' };
+      }
+
+      const validation = ValidationService.validateSnipeIndex(index, this.currentProfile.snipes.length);
+      if (!validation.valid) {
+        return { success: false, error: validation.error };
+      }
+
+      const snipeIndex = parseInt(index, 10) - 1; // Convert to 0-based index
+      const snipe = this.currentProfile.snipes[snipeIndex];
+      if (!snipe) {
+        return { success: false, error: 'Snipe not found' };
+      }
+
+      if (this.snipeEngine.isCurrentlyExecuting()) {
+        return { success: false, error: 'Cannot reset a snipe while snipes are executing' };
+      }
+
+      const previousStatus = snipe.status;
+      const updatedSnipe = await this.profileManager.resetSnipe(this.currentProfile.name, snipe.id, `was ${previousStatus}`);
+      this.executedSnipeIds.delete(snipe.id);
+
+      // Reload profile to get updated data
+      const reloadedProfile = await this.profileManager.loadProfile(this.currentProfile.name);
+      this.currentProfile = reloadedProfile || undefined;
+
+      return {
+        success: true,
+        message: `♻️  Reset snipe ${chalk.yellow(snipe.tokenAddress.substring(0, 10))}...: ` +
+                `${chalk.gray(previousStatus)} → ${chalk.cyan(updatedSnipe.status)}`,
+        data: { snipe: updatedSnipe, previousStatus }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to reset snipe'
+      };
+    }
+  }
+
   /**
    * Remove a snipe
    */
@@ -319,9 +515,9 @@ export class CommandHandler {
   }
 
   /**
-   * Test a snipe on regtest
+   * Set or clear price limits on a snipe
    */
-  public async testSnipe(index: string): Promise<CommandResult> {
+  public async setSnipePriceLimits(index: string, limits?: PriceLimits): Promise<CommandResult> {
     try {
       if (!this.currentProfile) {
         return { success: false, error: 'No profile selected. Use switch-profile first.' };
@@ -338,124 +534,1263 @@ export class CommandHandler {
         return { success: false, error: 'Snipe not found' };
       }
 
-      // Restore FlashNet wallet for this snipe
-      const wallet = await this.walletManager.restoreWallet(snipe.encryptedMnemonic, 'REGTEST');
+      const updatedSnipe = await this.profileManager.setSnipePriceLimits(this.currentProfile.name, snipe.id, limits);
 
-      // Find pool using FlashNet SDK
-      const poolsResponse = await this.walletManager.listPools(wallet);
-      
-      // Handle both array and object with pools property
-      const pools = Array.isArray(poolsResponse) ? poolsResponse : (poolsResponse.pools || []);
-      
-      if (!Array.isArray(pools)) {
-        console.log(chalk.yellow('⚠️  Unexpected pools response format:', typeof poolsResponse));
-        return {
-          success: false,
-          error: 'Failed to retrieve pools list from FlashNet API'
-        };
+      // Reload profile to get updated data
+      const reloadedProfile = await this.profileManager.loadProfile(this.currentProfile.name);
+      this.currentProfile = reloadedProfile || undefined;
+
+      return {
+        success: true,
+        message: limits
+          ? `🛡️  Price limits set for snipe: ${chalk.yellow(snipe.tokenAddress.substring(0, 10))}... (${limits.onBreach})`
+          : `🛡️  Price limits cleared for snipe: ${chalk.yellow(snipe.tokenAddress.substring(0, 10))}...`,
+        data: { snipe: updatedSnipe }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to set price limits'
+      };
+    }
+  }
+
+  /**
+   * Set or clear the tranche schedule on a snipe
+   */
+  public async setSnipeTranches(index: string, tranches?: TrancheSchedule): Promise<CommandResult> {
+    try {
+      if (!this.currentProfile) {
+        return { success: false, error: 'No profile selected. Use switch-profile first.' };
       }
-      
-      const pool = pools.find((p: any) => 
-        p.assetATokenPublicKey === snipe.tokenAddress || 
-        p.assetBTokenPublicKey === snipe.tokenAddress ||
-        p.tokenPublicKey === snipe.tokenAddress ||
-        p.poolId === snipe.tokenAddress
-      );
-      
-      if (!pool) {
-        return {
-          success: false,
-          error: `Pool not found for token ${snipe.tokenAddress.substring(0, 10)}... on REGTEST network`
-        };
+
+      const validation = ValidationService.validateSnipeIndex(index, this.currentProfile.snipes.length);
+      if (!validation.valid) {
+        return { success: false, error: validation.error };
       }
 
-      // Simulate the swap using FlashNet SDK
-      const amountInSats = Math.floor(parseFloat(snipe.amountBtc) * 100000000); // Convert BTC to satoshis
-      const simulation = await this.walletManager.simulateSwap(wallet, {
-        poolId: pool.poolId,
-        assetInTokenPublicKey: pool.assetBTokenPublicKey, // Assuming BTC is asset B
-        assetOutTokenPublicKey: snipe.tokenAddress,
-        amountIn: amountInSats
-      });
+      const snipeIndex = parseInt(index, 10) - 1;
+      const snipe = this.currentProfile.snipes[snipeIndex];
+      if (!snipe) {
+        return { success: false, error: 'Snipe not found' };
+      }
+
+      const updatedSnipe = await this.profileManager.setSnipeTranches(this.currentProfile.name, snipe.id, tranches);
+
+      // Reload profile to get updated data
+      const reloadedProfile = await this.profileManager.loadProfile(this.currentProfile.name);
+      this.currentProfile = reloadedProfile || undefined;
 
       return {
         success: true,
-        message: `🧪 Test simulation successful on REGTEST:\n` +
-                `   Pool: ${chalk.yellow(pool.poolId.substring(0, 10))}...\n` +
-                `   Amount In: ${chalk.green(snipe.amountBtc)} BTC\n` +
-                `   Expected Out: ${chalk.cyan(simulation.amountOut || 'N/A')} tokens\n` +
-                `   Price Impact: ${chalk.yellow((simulation.priceImpact || 0).toFixed(2))}%`,
-        data: { snipe, pool, simulation }
+        message: tranches
+          ? `🪜 Snipe ${chalk.yellow(snipe.tokenAddress.substring(0, 10))}... split into ${chalk.cyan(tranches.count)} tranches (${tranches.mode})`
+          : `🪜 Tranches cleared for snipe: ${chalk.yellow(snipe.tokenAddress.substring(0, 10))}...`,
+        data: { snipe: updatedSnipe }
       };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to test snipe'
+        error: error instanceof Error ? error.message : 'Failed to set tranches'
       };
     }
   }
 
   /**
-   * Start monitoring mode
+   * Set or clear the slippage schedule of a snipe
    */
-  public async startMonitoring(): Promise<CommandResult> {
+  public async setSnipeSlippageSchedule(index: string, schedule?: SlippageSchedule): Promise<CommandResult> {
     try {
       if (!this.currentProfile) {
         return { success: false, error: 'No profile selected. Use switch-profile first.' };
       }
 
-      const activeSnipes = this.currentProfile.snipes.filter(s => s.isActive);
-      if (activeSnipes.length === 0) {
-        return { success: false, error: 'No active snipes configured. Add and activate snipes first.' };
+      const validation = ValidationService.validateSnipeIndex(index, this.currentProfile.snipes.length);
+      if (!validation.valid) {
+        return { success: false, error: validation.error };
       }
 
-      // Start network monitoring
-      await this.networkDetector.startMonitoring('MAINNET');
+      if (schedule) {
+        const { startPct, stepPct, maxPct } = schedule;
+        if (!(startPct > 0) || !(stepPct >= 0) || !(maxPct <= 100)) {
+          return { success: false, error: 'Slippage must start above 0%, step by 0% or more and stay at or below 100%' };
+        }
+        if (maxPct < startPct) {
+          return { success: false, error: 'Slippage ceiling must not be below the starting slippage' };
+        }
+      }
+
+      const snipeIndex = parseInt(index, 10) - 1;
+      const snipe = this.currentProfile.snipes[snipeIndex];
+      if (!snipe) {
+        return { success: false, error: 'Snipe not found' };
+      }
+
+      const updatedSnipe = await this.profileManager.setSnipeSlippageSchedule(this.currentProfile.name, snipe.id, schedule);
+
+      // Reload profile to get updated data
+      const reloadedProfile = await this.profileManager.loadProfile(this.currentProfile.name);
+      this.currentProfile = reloadedProfile || undefined;
 
       return {
         success: true,
-        message: `🔍 Started monitoring for ${chalk.cyan(activeSnipes.length)} active snipes`,
-        data: { activeSnipes, profile: this.currentProfile.name }
+        message: schedule
+          ? `📉 Slippage for snipe ${chalk.yellow(snipe.tokenAddress.substring(0, 10))}... starts at ${chalk.cyan(`${schedule.startPct}%`)}, ` +
+            `+${schedule.stepPct}% per retry up to ${chalk.cyan(`${schedule.maxPct}%`)}`
+          : `📉 Slippage schedule cleared for snipe: ${chalk.yellow(snipe.tokenAddress.substring(0, 10))}...`,
+        data: { snipe: updatedSnipe }
       };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to start monitoring'
+        error: error instanceof Error ? error.message : 'Failed to set slippage schedule'
       };
     }
   }
 
   /**
-   * Stop monitoring mode
+   * Set or clear the retry, slippage and network settings a snipe overrides from its profile
    */
-  public stopMonitoring(): CommandResult {
+  public async setSnipeSettingsOverrides(index: string, overrides?: SnipeSettingsOverrides): Promise<CommandResult> {
     try {
-      this.networkDetector.stopMonitoring();
-      
+      if (!this.currentProfile) {
+        return { success: false, error: 'No profile selected. Use switch-profile first.' };
+      }
+
+      const validation = ValidationService.validateSnipeIndex(index, this.currentProfile.snipes.length);
+      if (!validation.valid) {
+        return { success: false, error: validation.error };
+      }
+
+      const overridesError = overrides && SnipeSettings.validateOverrides(overrides);
+      if (overridesError) {
+        return { success: false, error: overridesError };
+      }
+
+      const snipeIndex = parseInt(index, 10) - 1;
+      const snipe = this.currentProfile.snipes[snipeIndex];
+      if (!snipe) {
+        return { success: false, error: 'Snipe not found' };
+      }
+
+      // An empty override set means the snipe follows its profile again
+      const cleared = !overrides || Object.values(overrides).every(value => value === undefined);
+      const updatedSnipe = await this.profileManager.setSnipeSettingsOverrides(
+        this.currentProfile.name,
+        snipe.id,
+        cleared ? undefined : overrides
+      );
+
+      // Reload profile to get updated data
+      const reloadedProfile = await this.profileManager.loadProfile(this.currentProfile.name);
+      this.currentProfile = reloadedProfile || undefined;
+
+      const settings = this.getEffectiveSettings(updatedSnipe);
       return {
         success: true,
-        message: '⏹️  Stopped monitoring'
+        message: `⚙️  Effective settings for snipe ${chalk.yellow(snipe.tokenAddress.substring(0, 10))}...:\n` +
+          SnipeSettings.describe(settings).map(line => `   ${line}`).join('\n'),
+        data: { snipe: updatedSnipe, settings }
       };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to stop monitoring'
+        error: error instanceof Error ? error.message : 'Failed to set snipe settings'
       };
     }
   }
 
   /**
-   * Get current profile
+   * Resolve the settings a snipe runs with in the current profile
    */
-  public getCurrentProfile(): Profile | undefined {
-    return this.currentProfile;
+  public getEffectiveSettings(snipe: Snipe): ResolvedSettings {
+    return this.snipeEngine.resolveSettings(snipe, this.currentProfile?.settings);
   }
 
   /**
-   * Get network detector
+   * Set or clear exit rules on a snipe
    */
-  public getNetworkDetector(): NetworkDetector {
-    return this.networkDetector;
+  public async setSnipeExitRules(index: string, exitRules?: ExitRules): Promise<CommandResult> {
+    try {
+      if (!this.currentProfile) {
+        return { success: false, error: 'No profile selected. Use switch-profile first.' };
+      }
+
+      const validation = ValidationService.validateSnipeIndex(index, this.currentProfile.snipes.length);
+      if (!validation.valid) {
+        return { success: false, error: validation.error };
+      }
+
+      const snipeIndex = parseInt(index, 10) - 1;
+      const snipe = this.currentProfile.snipes[snipeIndex];
+      if (!snipe) {
+        return { success: false, error: 'Snipe not found' };
+      }
+
+      const updatedSnipe = await this.profileManager.setSnipeExitRules(this.currentProfile.name, snipe.id, exitRules);
+
+      // Reload profile to get updated data
+      const reloadedProfile = await this.profileManager.loadProfile(this.currentProfile.name);
+      this.currentProfile = reloadedProfile || undefined;
+
+      return {
+        success: true,
+        message: exitRules
+          ? `🎯 Exit rules set for snipe: ${chalk.yellow(snipe.tokenAddress.substring(0, 10))}...`
+          : `🎯 Exit rules cleared for snipe: ${chalk.yellow(snipe.tokenAddress.substring(0, 10))}...`,
+        data: { snipe: updatedSnipe }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to set exit rules'
+      };
+    }
+  }
+
+  /**
+   * Set the launch priority for a snipe
+   */
+  public async setSnipePriority(index: string, priority: string): Promise<CommandResult> {
+    try {
+      if (!this.currentProfile) {
+        return { success: false, error: 'No profile selected. Use switch-profile first.' };
+      }
+
+      const validation = ValidationService.validateSnipeIndex(index, this.currentProfile.snipes.length);
+      if (!validation.valid) {
+        return { success: false, error: validation.error };
+      }
+
+      const priorityValue = Number(priority);
+      if (!Number.isInteger(priorityValue) || priorityValue < -100 || priorityValue > 100) {
+        return { success: false, error: 'Priority must be a whole number between -100 and 100' };
+      }
+
+      const snipeIndex = parseInt(index, 10) - 1;
+      const snipe = this.currentProfile.snipes[snipeIndex];
+      if (!snipe) {
+        return { success: false, error: 'Snipe not found' };
+      }
+
+      const updatedSnipe = await this.profileManager.setSnipePriority(this.currentProfile.name, snipe.id, priorityValue);
+
+      // Reload profile to get updated data
+      const reloadedProfile = await this.profileManager.loadProfile(this.currentProfile.name);
+      this.currentProfile = reloadedProfile || undefined;
+
+      return {
+        success: true,
+        message: `🏁 Priority ${chalk.cyan(priorityValue)} set for snipe: ${chalk.yellow(snipe.tokenAddress.substring(0, 10))}...`,
+        data: { snipe: updatedSnipe }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to set priority'
+      };
+    }
+  }
+
+  /**
+   * Set or clear the bonding curve trigger for a snipe
+   */
+  public async setSnipeBondingTrigger(index: string, trigger?: BondingTrigger): Promise<CommandResult> {
+    try {
+      if (!this.currentProfile) {
+        return { success: false, error: 'No profile selected. Use switch-profile first.' };
+      }
+
+      const validation = ValidationService.validateSnipeIndex(index, this.currentProfile.snipes.length);
+      if (!validation.valid) {
+        return { success: false, error: validation.error };
+      }
+
+      const snipeIndex = parseInt(index, 10) - 1;
+      const snipe = this.currentProfile.snipes[snipeIndex];
+      if (!snipe) {
+        return { success: false, error: 'Snipe not found' };
+      }
+
+      if (trigger) {
+        const percentages = [trigger.minProgressPct, trigger.maxProgressPct].filter((p): p is number => p !== undefined);
+        if (percentages.some(p => isNaN(p) || p < 0 || p > 100)) {
+          return { success: false, error: 'Bonding progress must be between 0 and 100' };
+        }
+        if (trigger.minProgressPct !== undefined && trigger.maxProgressPct !== undefined &&
+            trigger.minProgressPct >= trigger.maxProgressPct) {
+          return { success: false, error: 'Minimum progress must be below the maximum' };
+        }
+      }
+
+      const updatedSnipe = await this.profileManager.setSnipeBondingTrigger(
+        this.currentProfile.name,
+        snipe.id,
+        BondingMonitor.hasConditions(trigger) ? trigger : undefined
+      );
+
+      // Reload profile to get updated data
+      const reloadedProfile = await this.profileManager.loadProfile(this.currentProfile.name);
+      this.currentProfile = reloadedProfile || undefined;
+
+      return {
+        success: true,
+        message: updatedSnipe.bondingTrigger
+          ? `🌱 Bonding trigger set for snipe: ${chalk.yellow(snipe.tokenAddress.substring(0, 10))}...`
+          : `🌱 Bonding trigger cleared for snipe: ${chalk.yellow(snipe.tokenAddress.substring(0, 10))}...`,
+        data: { snipe: updatedSnipe }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to set bonding trigger'
+      };
+    }
+  }
+
+  /**
+   * Set or clear the launch time for a snipe, a blank time clears it
+   */
+  public async setSnipeSchedule(index: string, executeAt: string, preFireOffsetMs: string): Promise<CommandResult> {
+    try {
+      if (!this.currentProfile) {
+        return { success: false, error: 'No profile selected. Use switch-profile first.' };
+      }
+
+      const validation = ValidationService.validateSnipeIndex(index, this.currentProfile.snipes.length);
+      if (!validation.valid) {
+        return { success: false, error: validation.error };
+      }
+
+      const snipeIndex = parseInt(index, 10) - 1;
+      const snipe = this.currentProfile.snipes[snipeIndex];
+      if (!snipe) {
+        return { success: false, error: 'Snipe not found' };
+      }
+
+      let launchTime: Date | undefined;
+      if (executeAt.trim()) {
+        launchTime = new Date(executeAt.trim());
+        if (isNaN(launchTime.getTime())) {
+          return { success: false, error: 'Launch time must be a date such as 2026-01-31T18:00:00Z' };
+        }
+        if (launchTime.getTime() <= Date.now()) {
+          return { success: false, error: 'Launch time must be in the future' };
+        }
+      }
+
+      const offset = preFireOffsetMs.trim() ? Number(preFireOffsetMs) : 0;
+      if (!Number.isInteger(offset) || offset < 0 || offset > 60000) {
+        return { success: false, error: 'Pre-fire offset must be between 0 and 60000ms' };
+      }
+
+      const updatedSnipe = await this.profileManager.setSnipeSchedule(this.currentProfile.name, snipe.id, launchTime, offset);
+
+      // Reload profile to get updated data
+      const reloadedProfile = await this.profileManager.loadProfile(this.currentProfile.name);
+      this.currentProfile = reloadedProfile || undefined;
+
+      return {
+        success: true,
+        message: launchTime
+          ? `⏰ Snipe ${chalk.yellow(snipe.tokenAddress.substring(0, 10))}... launches at ${chalk.cyan(launchTime.toISOString())}` +
+            (offset > 0 ? ` (fires ${offset}ms early)` : '')
+          : `⏰ Schedule cleared for snipe: ${chalk.yellow(snipe.tokenAddress.substring(0, 10))}...`,
+        data: { snipe: updatedSnipe }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to set schedule'
+      };
+    }
+  }
+
+  /**
+   * Test a snipe on regtest
+   */
+  public async testSnipe(index: string): Promise<CommandResult> {
+    const startTime = Date.now();
+    let testedSnipe: Snipe | undefined;
+    let wallet: FlashNetWallet | undefined;
+
+    try {
+      if (!this.currentProfile) {
+        return { success: false, error: 'No profile selected. Use switch-profile first.' };
+      }
+
+      const validation = ValidationService.validateSnipeIndex(index, this.currentProfile.snipes.length);
+      if (!validation.valid) {
+        return { success: false, error: validation.error };
+      }
+
+      const snipeIndex = parseInt(index, 10) - 1;
+      const snipe = this.currentProfile.snipes[snipeIndex];
+      if (!snipe) {
+        return { success: false, error: 'Snipe not found' };
+      }
+
+      testedSnipe = snipe;
+
+      // Restore FlashNet wallet for this snipe
+      wallet = await this.walletManager.restoreWallet(snipe.encryptedMnemonic, 'REGTEST');
+
+      // Find pool, scanning every page the first time and by ID after that
+      let pool: BackendPool;
+      try {
+        pool = await this.poolResolver.resolve(wallet, snipe.tokenAddress);
+      } catch (resolveError) {
+        const reason = resolveError instanceof Error ? resolveError.message : 'Unknown error';
+        const error = `${reason} on REGTEST network`;
+        await this.recordTestResult(snipe, { snipeId: snipe.id, success: false, error, executionTime: Date.now() - startTime, attempts: 1 });
+        return { success: false, error };
+      }
+
+      // Simulate the swap on the trading backend
+      const amountInSats = Math.floor(parseFloat(snipe.amountBtc) * 100000000); // Convert BTC to satoshis
+      const btcIsAssetA = pool.assetAAddress === BTC_ASSET_ADDRESS;
+      const simulation = await this.walletManager.simulateSwap(wallet, {
+        poolId: pool.poolId,
+        assetInAddress: BTC_ASSET_ADDRESS,
+        assetOutAddress: btcIsAssetA ? pool.assetBAddress : pool.assetAAddress,
+        amountIn: amountInSats.toString()
+      });
+
+      const amountOut = parseFloat(simulation.amountOut || '0');
+      const bondingProgress = parseFloat(pool.bondingProgressPercent || '0');
+      const settings = this.getEffectiveSettings(snipe);
+      const slippagePct = snipe.slippageSchedule?.startPct ?? settings.slippageTolerance;
+      const minAmountOut = Math.floor(amountOut * (1 - slippagePct / 100));
+      const poolData: PoolData = {
+        poolId: pool.poolId,
+        tokenSymbol: 'TOKEN',
+        tokenName: 'Unknown Token',
+        currentPrice: amountOut > 0 ? amountInSats / amountOut : 0,
+        estimatedTokens: simulation.amountOut || '0',
+        slippageTolerance: slippagePct,
+        liquidityBtc: parseFloat((btcIsAssetA ? pool.assetAReserve : pool.assetBReserve) || '0'),
+        bondingProgress,
+        isGraduated: bondingProgress >= 100,
+        network: 'REGTEST',
+        lastUpdated: new Date()
+      };
+
+      await this.recordTestResult(snipe, {
+        snipeId: snipe.id,
+        success: true,
+        poolId: pool.poolId,
+        tokensReceived: simulation.amountOut,
+        actualPrice: amountOut > 0 ? amountInSats / amountOut : undefined,
+        slippagePct,
+        minAmountOut: minAmountOut.toString(),
+        executionTime: Date.now() - startTime,
+        attempts: 1
+      }, poolData);
+
+      // Cross-check the simulation against the reserves, and size against the impact limit
+      const reserves = QuoteEngine.reservesFromPool(pool, btcIsAssetA);
+      const localQuote = reserves ? QuoteEngine.quote(reserves, amountInSats) : undefined;
+      const maxImpactPct = snipe.priceLimits?.maxPriceImpactPct;
+      const quoteLines = localQuote && reserves
+        ? `\n   Local Quote: ${chalk.cyan(localQuote.amountOut)} tokens ` +
+          `(${QuoteEngine.deviationPct(localQuote.amountOut, amountOut).toFixed(2)}% off simulation, ` +
+          `fees ${localQuote.lpFee + localQuote.hostFee} sats)` +
+          (maxImpactPct !== undefined
+            ? `\n   Max Size: ${chalk.green((QuoteEngine.maxAmountInForImpact(reserves, maxImpactPct) / 100000000).toFixed(8))} BTC ` +
+              `within ${maxImpactPct}% impact`
+            : '')
+        : '';
+
+      return {
+        success: true,
+        message: `🧪 Test simulation successful on REGTEST:\n` +
+                `   Pool: ${chalk.yellow(pool.poolId.substring(0, 10))}...\n` +
+                `   Amount In: ${chalk.green(snipe.amountBtc)} BTC\n` +
+                `   Expected Out: ${chalk.cyan(simulation.amountOut || 'N/A')} tokens\n` +
+                `   Price Impact: ${chalk.yellow(parseFloat(simulation.priceImpactPct || '0').toFixed(2))}%\n` +
+                `   Min Out: ${chalk.cyan(minAmountOut)} tokens at ${slippagePct}% slippage` +
+                quoteLines,
+        data: { snipe, pool, simulation, localQuote, settings }
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to test snipe';
+
+      if (testedSnipe) {
+        try {
+          await this.recordTestResult(testedSnipe, {
+            snipeId: testedSnipe.id,
+            success: false,
+            error: message,
+            executionTime: Date.now() - startTime,
+            attempts: 1
+          });
+        } catch {
+          // The test failure is what gets reported
+        }
+      }
+
+      return {
+        success: false,
+        error: message
+      };
+    } finally {
+      if (wallet) {
+        this.walletManager.releaseWallet(wallet);
+      }
+    }
+  }
+
+  /**
+   * Rehearse a snipe on regtest with a real swap, promoting it to TESTED when the tokens arrive
+   */
+  public async rehearseSnipe(index: string, amountBtc?: string): Promise<CommandResult> {
+    try {
+      if (!this.currentProfile) {
+        return { success: false, error: 'No profile selected. Use switch-profile first.' };
+      }
+
+      const validation = ValidationService.validateSnipeIndex(index, this.currentProfile.snipes.length);
+      if (!validation.valid) {
+        return { success: false, error: validation.error };
+      }
+
+      const snipe = this.currentProfile.snipes[parseInt(index, 10) - 1];
+      if (!snipe) {
+        return { success: false, error: 'Snipe not found' };
+      }
+
+      if (!SnipeStateMachine.hasWallet(snipe)) {
+        return { success: false, error: 'Snipe has no wallet to rehearse with' };
+      }
+
+      // Rehearse with the snipe's own amount unless a smaller regtest amount is given
+      const amount = amountBtc?.trim().toLowerCase().replace(/btc$/, '') || snipe.amountBtc;
+      const amountValidation = ValidationService.validateBTCAmount(amount);
+      if (!amountValidation.valid) {
+        return { success: false, error: amountValidation.error };
+      }
+      const amountSats = Math.floor(parseFloat(amount) * 100000000);
+
+      const result = await this.snipeEngine.rehearseSnipe(snipe, amountSats, this.currentProfile.settings);
+
+      this.currentProfile = await this.profileManager.recordSnipeRehearsal(this.currentProfile.name, snipe.id, result);
+      const rehearsed = this.currentProfile.snipes.find(s => s.id === snipe.id) || snipe;
+
+      const { timing } = result;
+      const timingLines =
+        `   Timing: ${chalk.cyan(timing.totalMs)}ms total\n` +
+        `     Wallet ${timing.walletMs}ms · Balance ${timing.balanceMs}ms · Pool ${timing.poolMs}ms · ` +
+        `Simulate ${timing.simulateMs}ms · Swap ${timing.swapMs}ms · Verify ${timing.verifyMs}ms`;
+
+      if (!result.success) {
+        return {
+          success: false,
+          error: `Rehearsal failed on REGTEST: ${result.error}\n${timingLines}`,
+          data: { snipe: rehearsed, result }
+        };
+      }
+
+      return {
+        success: true,
+        message: `🎭 Rehearsal passed on REGTEST:\n` +
+                `   Pool: ${chalk.yellow((result.poolId || '').substring(0, 10))}...\n` +
+                `   Amount In: ${chalk.green(amount)} BTC\n` +
+                `   Received: ${chalk.cyan(result.tokensReceived || '0')} tokens ` +
+                `(balance ${result.tokenBalanceBefore} → ${result.tokenBalanceAfter}, min ${result.minAmountOut})\n` +
+                `   Tx: ${chalk.gray(result.transactionHash || 'N/A')}\n` +
+                `${timingLines}\n` +
+                `   Status: ${chalk.cyan(rehearsed.status)}`,
+        data: { snipe: rehearsed, result }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to rehearse snipe'
+      };
+    }
+  }
+
+  /**
+   * Save a test run onto the snipe's history
+   */
+  private async recordTestResult(snipe: Snipe, result: SnipeResult, poolData?: PoolData): Promise<void> {
+    if (!this.currentProfile) {
+      return;
+    }
+
+    this.currentProfile = await this.profileManager.recordSnipeTest(this.currentProfile.name, snipe.id, result, poolData);
+  }
+
+  /**
+   * Start monitoring mode
+   */
+  public async startMonitoring(options: { dryRun?: boolean } = {}): Promise<CommandResult> {
+    try {
+      if (!this.currentProfile) {
+        return { success: false, error: 'No profile selected. Use switch-profile first.' };
+      }
+
+      const activeSnipes = this.currentProfile.snipes.filter(s => s.isActive);
+      if (activeSnipes.length === 0) {
+        return { success: false, error: 'No active snipes configured. Add and activate snipes first.' };
+      }
+
+      // Each monitoring session gets an engine in the requested paper/live mode
+      const dryRun = options.dryRun ?? false;
+      if (this.snipeEngine.isDryRun() !== dryRun) {
+        this.snipeEngine.stop();
+        this.snipeEngine = this.createSnipeEngine(dryRun);
+      }
+
+      const journalNote = this.snipeEngine.isCurrentlyExecuting()
+        ? ''
+        : await this.reconcileJournal(this.currentProfile);
+
+      // Arm before the first health check so an immediate online status still triggers
+      this.isArmed = true;
+      this.executedSnipeIds.clear();
+
+      // Snipes are armed as READY, except filled ones which must be reset first and
+      // ones whose swaps were just reconciled, which keep the status reconciling gave them
+      if (!dryRun) {
+        this.currentProfile = await this.profileManager.markSnipesReady(
+          this.currentProfile.name,
+          activeSnipes.filter(s => !this.reconciledSnipeIds.has(s.id)).map(s => s.id),
+          'Armed for monitoring'
+        );
+      }
+
+      // Snipes that already bought, or may have, are never bought again
+      this.currentProfile.snipes
+        .filter(s => s.status === 'SUCCESS' || s.status === 'UNRESOLVED' || this.unreconciledSnipeIds.has(s.id))
+        .forEach(s => this.executedSnipeIds.add(s.id));
+
+      // Restore and authenticate wallets now so execution only simulates and swaps
+      const armResults = await this.snipeEngine.armWallets(this.currentProfile);
+      const failedArms = armResults.filter(r => !r.success);
+
+      // Start network monitoring
+      await this.networkDetector.startMonitoring('MAINNET');
+
+      // Listings, curves and the launch clock are watched on the network the profile resolves to
+      const { network } = this.snipeEngine.resolveSettings(undefined, this.currentProfile.settings);
+
+      // Scheduled snipes fire at their launch time, bonding snipes on curve progress,
+      // the rest when their pool is listed
+      const pendingSnipes = activeSnipes.filter(s => !this.executedSnipeIds.has(s.id));
+      const scheduledSnipes = pendingSnipes.filter(s => s.executeAt);
+      const bondingSnipes = pendingSnipes.filter(s => !s.executeAt && BondingMonitor.hasConditions(s.bondingTrigger));
+      const triggeredSnipes = activeSnipes.filter(s => !this.hasOwnTrigger(s));
+
+      // Watch for target pools being listed
+      await this.poolWatcher.startWatching(triggeredSnipes.map(s => s.tokenAddress), network);
+
+      await this.bondingMonitor.startWatching(bondingSnipes, network);
+
+      const clockSync = await this.snipeScheduler.start(scheduledSnipes, network);
+      const scheduleNote = scheduledSnipes.length > 0
+        ? `\n⏰ ${chalk.cyan(scheduledSnipes.length)} snipes scheduled` +
+          (clockSync ? ` (clock offset ${clockSync.offsetMs}ms)` : chalk.yellow(' (clock not synced)'))
+        : '';
+      const bondingNote = bondingSnipes.length > 0
+        ? `\n🌱 ${chalk.cyan(bondingSnipes.length)} snipes waiting on bonding curve triggers`
+        : '';
+
+      const armWarning = failedArms.length > 0
+        ? `\n${chalk.yellow(`⚠️  ${failedArms.length} wallets failed to arm and will be restored on execution`)}`
+        : '';
+
+      // Live snipes only become READY through a passing rehearsal
+      const unrehearsed = dryRun
+        ? []
+        : this.currentProfile.snipes.filter(s => s.isActive && s.status === 'VALIDATED');
+      const rehearsalWarning = unrehearsed.length > 0
+        ? `\n${chalk.yellow(`⚠️  ${unrehearsed.length} snipes have not passed a regtest rehearsal and will not execute`)}`
+        : '';
+
+      const modeLabel = dryRun ? ` ${chalk.magenta('[PAPER]')}` : '';
+
+      return {
+        success: true,
+        message: `🔍 Started monitoring${modeLabel} for ${chalk.cyan(activeSnipes.length)} active snipes ` +
+                `(${chalk.green(armResults.length - failedArms.length)} wallets armed)${armWarning}${rehearsalWarning}${scheduleNote}${bondingNote}${journalNote}`,
+        data: { activeSnipes, armResults, dryRun, clockSync, profile: this.currentProfile.name }
+      };
+    } catch (error) {
+      this.isArmed = false;
+      this.snipeEngine.disarm();
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to start monitoring'
+      };
+    }
+  }
+
+  /**
+   * Stop monitoring mode
+   */
+  public stopMonitoring(): CommandResult {
+    try {
+      this.isArmed = false;
+      this.networkDetector.stopMonitoring();
+      this.poolWatcher.stopWatching();
+      this.snipeScheduler.stop();
+      this.bondingMonitor.stopWatching();
+
+      // Cancel snipes still waiting to swap, swaps already submitted run to completion
+      const dryRun = this.snipeEngine.isDryRun();
+      const report = this.snipeEngine.stop();
+      this.snipeEngine = this.createSnipeEngine(dryRun);
+      const cancelled = report.cancelledBeforeSwap.length + report.inFlight.length > 0
+        ? ` (${chalk.yellow(report.cancelledBeforeSwap.length)} snipes cancelled, ${chalk.cyan(report.inFlight.length)} swaps in flight)`
+        : '';
+      
+      return {
+        success: true,
+        message: `⏹️  Stopped monitoring${cancelled}`,
+        data: { report }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to stop monitoring'
+      };
+    }
+  }
+
+  /**
+   * Execute active snipes once per monitoring arming
+   */
+  public async executeArmedSnipes(): Promise<CommandResult> {
+    // Disarm synchronously so network flaps during execution cannot re-trigger
+    if (!this.isArmed) {
+      return { success: false, error: 'Snipes already executed for this monitoring session' };
+    }
+    this.isArmed = false;
+
+    try {
+      if (!this.currentProfile) {
+        return { success: false, error: 'No profile selected. Use switch-profile first.' };
+      }
+
+      // Skip snipes that a pool trigger already executed during this arming
+      const profile = this.currentProfile;
+      const pendingProfile: Profile = {
+        ...profile,
+        snipes: profile.snipes.filter(s => !this.executedSnipeIds.has(s.id) && !this.hasOwnTrigger(s))
+      };
+      pendingProfile.snipes.forEach(s => this.executedSnipeIds.add(s.id));
+
+      const alertsEnabled = profile.settings.enableDiscordAlerts;
+      const activeSnipeCount = pendingProfile.snipes.filter(s => s.isActive).length;
+
+      if (alertsEnabled) {
+        await this.discordNotifier.sendMonitoringNotification(
+          profile.name,
+          activeSnipeCount,
+          'MAINNET_ONLINE',
+          this.snipeEngine.isDryRun()
+        );
+      }
+
+      const startTime = Date.now();
+      const results = await this.snipeEngine.executeSnipes(pendingProfile);
+      const totalTime = Date.now() - startTime;
+
+      this.currentProfile = await this.profileManager.recordSnipeResults(profile.name, results);
+      await this.openPositions(this.currentProfile, results);
+
+      if (alertsEnabled) {
+        await this.discordNotifier.sendExecutionSummary(profile.name, results, totalTime);
+      }
+
+      const successful = results.filter(r => r.success).length;
+      const verb = this.snipeEngine.isDryRun() ? 'Paper-traded' : 'Executed';
+
+      return {
+        success: true,
+        message: `🎯 ${verb} ${chalk.cyan(results.length)} snipes: ` +
+                `${chalk.green(successful)} successful, ${chalk.red(results.length - successful)} failed (${totalTime}ms)` +
+                this.formatUnverifiedFills(results),
+        data: { results, totalTime }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to execute snipes'
+      };
+    }
+  }
+
+  /**
+   * Execute the snipes targeting a newly listed pool, once per arming
+   */
+  public async executeSnipesForPool(event: PoolCreatedEvent): Promise<CommandResult> {
+    try {
+      if (!this.currentProfile) {
+        return { success: false, error: 'No profile selected. Use switch-profile first.' };
+      }
+
+      const profile = this.currentProfile;
+      const snipes = profile.snipes.filter(s =>
+        s.isActive &&
+        s.tokenAddress.toLowerCase() === event.tokenAddress.toLowerCase() &&
+        !this.hasOwnTrigger(s) &&
+        !this.executedSnipeIds.has(s.id)
+      );
+
+      if (snipes.length === 0) {
+        return { success: false, error: `No pending snipes for token ${event.tokenAddress.substring(0, 10)}...` };
+      }
+
+      snipes.forEach(s => this.executedSnipeIds.add(s.id));
+
+      const startTime = Date.now();
+      const results = await this.snipeEngine.executeSnipesForPool(snipes, event.poolId, profile);
+      const totalTime = Date.now() - startTime;
+
+      this.currentProfile = await this.profileManager.recordSnipeResults(profile.name, results);
+      await this.openPositions(this.currentProfile, results);
+
+      if (profile.settings.enableDiscordAlerts) {
+        await this.discordNotifier.sendExecutionSummary(profile.name, results, totalTime);
+      }
+
+      const successful = results.filter(r => r.success).length;
+
+      return {
+        success: true,
+        message: `🎯 Pool ${chalk.yellow(event.poolId.substring(0, 10))}... triggered ${chalk.cyan(results.length)} snipes: ` +
+                `${chalk.green(successful)} successful, ${chalk.red(results.length - successful)} failed (${totalTime}ms)` +
+                this.formatUnverifiedFills(results),
+        data: { results, totalTime, poolId: event.poolId }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to execute snipes for pool'
+      };
+    }
+  }
+
+  /**
+   * Execute a snipe whose bonding curve trigger was met, once per arming
+   */
+  public async executeTriggeredSnipe(event: BondingTriggerEvent): Promise<CommandResult> {
+    try {
+      if (!this.currentProfile) {
+        return { success: false, error: 'No profile selected. Use switch-profile first.' };
+      }
+
+      const profile = this.currentProfile;
+      const snipe = profile.snipes.find(s => s.id === event.snipeId && s.isActive);
+      if (!snipe || this.executedSnipeIds.has(snipe.id)) {
+        return { success: false, error: `Snipe ${event.snipeId} is no longer pending` };
+      }
+
+      this.executedSnipeIds.add(snipe.id);
+
+      const startTime = Date.now();
+      const results = await this.snipeEngine.executeSnipesForPool([snipe], event.poolId, profile);
+      const totalTime = Date.now() - startTime;
+
+      this.currentProfile = await this.profileManager.recordSnipeResults(profile.name, results);
+      await this.openPositions(this.currentProfile, results);
+
+      if (profile.settings.enableDiscordAlerts) {
+        await this.discordNotifier.sendExecutionSummary(profile.name, results, totalTime);
+      }
+
+      const result = results[0];
+
+      return {
+        success: true,
+        message: `🌱 ${event.reason}: snipe ${chalk.yellow(snipe.tokenAddress.substring(0, 10))}... ` +
+                `${result?.success ? chalk.green('successful') : chalk.red('failed')} (${totalTime}ms)` +
+                this.formatUnverifiedFills(results),
+        data: { results, totalTime, poolId: event.poolId }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to execute triggered snipe'
+      };
+    }
+  }
+
+  /**
+   * Re-point a snipe to the pool its token moved to on graduation
+   */
+  public async repointGraduatedSnipe(event: PoolGraduatedEvent): Promise<CommandResult> {
+    try {
+      if (!this.currentProfile) {
+        return { success: false, error: 'No profile selected. Use switch-profile first.' };
+      }
+
+      // The token's cached pool is the retired curve now
+      this.poolResolver.invalidate(event.tokenAddress, event.network);
+
+      const snipe = this.currentProfile.snipes.find(s => s.id === event.snipeId);
+      const amountInSats = snipe ? Math.floor(parseFloat(snipe.amountBtc) * 100000000) : undefined;
+
+      await this.profileManager.setSnipeTargetPool(
+        this.currentProfile.name,
+        event.snipeId,
+        event.toPoolId,
+        this.flashnetClient.transformPoolData(event.pool, amountInSats)
+      );
+
+      // Reload profile to get updated data
+      const reloadedProfile = await this.profileManager.loadProfile(this.currentProfile.name);
+      this.currentProfile = reloadedProfile || undefined;
+
+      return {
+        success: true,
+        message: `🎓 Token ${chalk.yellow(event.tokenAddress.substring(0, 10))}... graduated, ` +
+                `snipe now targets pool ${chalk.cyan(event.toPoolId.substring(0, 20))}...`,
+        data: { snipeId: event.snipeId, fromPoolId: event.fromPoolId, toPoolId: event.toPoolId }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to re-point graduated snipe'
+      };
+    }
+  }
+
+  /**
+   * Check if a snipe fires on its own schedule or bonding trigger rather than on
+   * mainnet coming online or its pool being listed
+   */
+  private hasOwnTrigger(snipe: Snipe): boolean {
+    return !!snipe.executeAt || BondingMonitor.hasConditions(snipe.bondingTrigger);
+  }
+
+  /**
+   * Re-arm the wallets of a scheduled launch shortly before it fires
+   */
+  public async armScheduledSnipes(event: ScheduledArmEvent): Promise<CommandResult> {
+    try {
+      if (!this.currentProfile) {
+        return { success: false, error: 'No profile selected. Use switch-profile first.' };
+      }
+
+      const snipes = this.currentProfile.snipes.filter(s => event.snipeIds.includes(s.id));
+      const armResults = await this.snipeEngine.armWallets({ ...this.currentProfile, snipes });
+      const armed = armResults.filter(r => r.success).length;
+
+      return {
+        success: true,
+        message: `⏰ Armed ${chalk.green(armed)}/${armResults.length} wallets for launch at ${event.executeAt.toLocaleTimeString()}`,
+        data: { armResults }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to arm scheduled snipes'
+      };
+    }
+  }
+
+  /**
+   * Execute the snipes of a scheduled launch, once per arming
+   */
+  public async executeScheduledSnipes(event: ScheduledFireEvent): Promise<CommandResult> {
+    try {
+      if (!this.currentProfile) {
+        return { success: false, error: 'No profile selected. Use switch-profile first.' };
+      }
+
+      const profile = this.currentProfile;
+      const snipes = profile.snipes.filter(s =>
+        s.isActive &&
+        event.snipeIds.includes(s.id) &&
+        !this.executedSnipeIds.has(s.id)
+      );
+
+      if (snipes.length === 0) {
+        return { success: false, error: 'No pending snipes for this launch' };
+      }
+
+      snipes.forEach(s => this.executedSnipeIds.add(s.id));
+
+      const startTime = Date.now();
+      const results = await this.snipeEngine.executeScheduledSnipes(snipes, profile);
+      const totalTime = Date.now() - startTime;
+
+      this.currentProfile = await this.profileManager.recordSnipeResults(profile.name, results);
+      await this.openPositions(this.currentProfile, results);
+
+      if (profile.settings.enableDiscordAlerts) {
+        await this.discordNotifier.sendExecutionSummary(profile.name, results, totalTime);
+      }
+
+      const successful = results.filter(r => r.success).length;
+
+      return {
+        success: true,
+        message: `⏰ Launch fired ${chalk.cyan(event.driftMs)}ms after target, ${chalk.cyan(results.length)} snipes: ` +
+                `${chalk.green(successful)} successful, ${chalk.red(results.length - successful)} failed (${totalTime}ms)` +
+                this.formatUnverifiedFills(results),
+        data: { results, totalTime, driftMs: event.driftMs }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to execute scheduled snipes'
+      };
+    }
+  }
+
+  /**
+   * Create a snipe engine that reflects execution progress on the current profile
+   */
+  private createSnipeEngine(dryRun: boolean): SnipeEngine {
+    const engine = new SnipeEngine(this.baseDir, { dryRun });
+
+    // Transient statuses live in memory, final ones are persisted with the results
+    engine.on('snipe:event', (event: SnipeExecutionEvent) => {
+      // A scheduled re-arm must not restore the wallets of a snipe that is already swapping
+      if (event.type === 'started') {
+        this.snipeScheduler.cancelArming([event.snipeId]);
+      }
+
+      const snipe = this.currentProfile?.snipes.find(s => s.id === event.snipeId);
+      // Regtest rehearsals never move a snipe's mainnet status
+      if (!snipe || engine.isDryRun() || event.data?.rehearsal) {
+        return;
+      }
+
+      if (event.type === 'started') {
+        SnipeStateMachine.tryTransition(snipe, 'EXECUTING', 'Execution started');
+      } else if (event.type === 'retrying') {
+        SnipeStateMachine.tryTransition(snipe, 'RETRYING', `Attempt ${event.data?.attempt} failed: ${event.data?.error}`);
+      }
+    });
+
+    return engine;
+  }
+
+  /**
+   * Warn about fills whose tokens never showed up in the wallet
+   */
+  private formatUnverifiedFills(results: SnipeResult[]): string {
+    const unverified = results.filter(r => r.success && r.verification === 'UNVERIFIED');
+    if (unverified.length === 0) {
+      return '';
+    }
+
+    const lines = unverified.map(r =>
+      `   ${r.snipeId}: AMM reported ${r.reportedTokens || '?'} tokens, wallet shows ${r.verifiedTokens || '0'}`
+    );
+    return `\n${chalk.yellow(`⚠️  ${unverified.length} fills UNVERIFIED:`)}\n${chalk.yellow(lines.join('\n'))}`;
+  }
+
+  /**
+   * Reconcile the execution journal, saving fills that never reached the profile
+   * and holding back snipes whose last swap cannot be resolved
+   */
+  private async reconcileJournal(profile: Profile): Promise<string> {
+    const journal = new ExecutionJournal(this.profileManager.getProfilePath(profile.name));
+    const reports = await journal.reconcile(profile, this.walletManager);
+
+    this.unreconciledSnipeIds = new Set(reports.filter(r => r.outcome === 'UNKNOWN').map(r => r.snipeId));
+    this.reconciledSnipeIds = new Set(reports.map(r => r.snipeId));
+
+    // Spend held for swaps that never filled goes back to the budget, fills are spent
+    for (const report of reports.filter(r => r.reservationId && r.outcome !== 'UNKNOWN')) {
+      await this.budgetGuard.settle(report.reservationId!, report.outcome === 'FILLED');
+    }
+
+    const recovered: SnipeResult[] = (await journal.getRecoveredFills())
+      .filter(fill => !this.unreconciledSnipeIds.has(fill.snipeId))
+      .map(fill => ({
+        snipeId: fill.snipeId,
+        success: true,
+        poolId: fill.poolId,
+        transactionHash: fill.txId,
+        tokensReceived: fill.tokensReceived.toString(),
+        actualPrice: fill.tokensReceived > 0 ? fill.amountSats / fill.tokensReceived : undefined,
+        spentSats: fill.amountSats,
+        executionTime: 0,
+        attempts: fill.swaps,
+        recovered: true
+      }));
+
+    if (recovered.length > 0) {
+      this.currentProfile = await this.profileManager.recordSnipeResults(profile.name, recovered);
+    }
+
+    if (reports.length > 0) {
+      this.currentProfile = await this.profileManager.applyReconciliation(profile.name, reports);
+    }
+
+    const notes: string[] = [];
+    if (recovered.length > 0) {
+      notes.push(chalk.yellow(`📒 Recovered ${recovered.length} fills from an interrupted session`));
+    }
+    for (const report of reports.filter(r => r.outcome === 'UNKNOWN')) {
+      notes.push(chalk.red(`⚠️  Swap ${report.swapId} of snipe ${report.snipeId} is unresolved and will not run: ${report.error}`));
+    }
+
+    return notes.length > 0 ? `\n${notes.join('\n')}` : '';
+  }
+
+  /**
+   * Open positions for filled snipes with exit rules and start watching them
+   */
+  private async openPositions(profile: Profile, results: SnipeResult[]): Promise<void> {
+    for (const result of results) {
+      const snipe = profile.snipes.find(s => s.id === result.snipeId);
+      if (!snipe) {
+        continue;
+      }
+
+      try {
+        await this.positionMonitor.openPosition(profile, snipe, result);
+      } catch (error) {
+        console.log(chalk.red(`❌ Failed to open position for snipe ${snipe.id}: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      }
+    }
+
+    await this.positionMonitor.startMonitoring(profile);
+  }
+
+  /**
+   * Check if monitoring is armed to execute
+   */
+  public isMonitoringArmed(): boolean {
+    return this.isArmed;
+  }
+
+  /**
+   * Get current profile
+   */
+  public getCurrentProfile(): Profile | undefined {
+    return this.currentProfile;
+  }
+
+  /**
+   * Get network detector
+   */
+  public getNetworkDetector(): NetworkDetector {
+    return this.networkDetector;
+  }
+
+  /**
+   * Get pool watcher
+   */
+  public getPoolWatcher(): PoolWatcher {
+    return this.poolWatcher;
+  }
+
+  /**
+   * Get position monitor
+   */
+  public getPositionMonitor(): PositionMonitor {
+    return this.positionMonitor;
+  }
+
+  /**
+   * Get the snipe scheduler
+   */
+  public getSnipeScheduler(): SnipeScheduler {
+    return this.snipeScheduler;
+  }
+
+  /**
+   * Get the bonding curve monitor
+   */
+  public getBondingMonitor(): BondingMonitor {
+    return this.bondingMonitor;
+  }
+
+  /**
+   * List positions of the current profile
+   */
+  public async getPositions(): Promise<CommandResult> {
+    try {
+      if (!this.currentProfile) {
+        return { success: false, error: 'No profile selected. Use switch-profile first.' };
+      }
+
+      const positions = await this.positionMonitor.loadPositions(this.currentProfile.name);
+
+      return {
+        success: true,
+        data: { positions, isMonitoring: this.positionMonitor.isMonitoring() }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load positions'
+      };
+    }
+  }
+
+  /**
+   * Get the spending caps of the current profile and what has been spent against them
+   */
+  public async getBudget(): Promise<CommandResult> {
+    try {
+      if (!this.currentProfile) {
+        return { success: false, error: 'No profile selected. Use switch-profile first.' };
+      }
+
+      const usage = await this.budgetGuard.getUsage(this.currentProfile.name);
+
+      return {
+        success: true,
+        data: {
+          usage,
+          maxTotalSpendBtc: this.currentProfile.settings.maxTotalSpendBtc,
+          maxSpendPerToken: this.currentProfile.settings.maxSpendPerToken,
+          dailySpendCapBtc: config.get('dailySpendCapBtc')
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load budget'
+      };
+    }
+  }
+
+  /**
+   * Set or clear the profile spending caps, blank values remove a cap
+   */
+  public async setBudgetCaps(maxTotalSpendBtc: string, maxSpendPerToken: string): Promise<CommandResult> {
+    try {
+      if (!this.currentProfile) {
+        return { success: false, error: 'No profile selected. Use switch-profile first.' };
+      }
+
+      for (const amount of [maxTotalSpendBtc, maxSpendPerToken].filter(value => value.trim())) {
+        const validation = ValidationService.validateBTCAmount(amount);
+        if (!validation.valid) {
+          return { success: false, error: validation.error };
+        }
+      }
+
+      this.currentProfile = await this.profileManager.updateSettings(this.currentProfile.name, {
+        maxTotalSpendBtc: maxTotalSpendBtc.trim() || undefined,
+        maxSpendPerToken: maxSpendPerToken.trim() || undefined
+      });
+
+      const describe = (value?: string) => value ? `${value} BTC` : 'no cap';
+
+      return {
+        success: true,
+        message: `💸 Budget caps: total ${chalk.cyan(describe(this.currentProfile.settings.maxTotalSpendBtc))}, ` +
+                `per token ${chalk.cyan(describe(this.currentProfile.settings.maxSpendPerToken))}`,
+        data: { settings: this.currentProfile.settings }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to set budget caps'
+      };
+    }
   }
 
   /**
@@ -475,7 +1810,13 @@ export class CommandHandler {
    * Cleanup resources
    */
   public async cleanup(): Promise<void> {
+    this.isArmed = false;
     this.networkDetector.destroy();
+    this.poolWatcher.destroy();
+    this.positionMonitor.destroy();
+    this.snipeScheduler.destroy();
+    this.bondingMonitor.destroy();
+    this.snipeEngine.stop();
     
     if (this.currentProfile) {
       await this.profileManager.releaseLock(this.currentProfile.name);
@@ -1,9 +1,17 @@
 import inquirer from 'inquirer';
 import chalk from 'chalk';
 import { CommandHandler } from './commands';
-import { Profile, Snipe } from '../types/profile';
+import {
+  Profile, Snipe, PriceLimits, TrancheSchedule, SlippageSchedule, BondingTrigger, SnipeSettingsOverrides
+} from '../types/profile';
+import { ExitRules, Position, TakeProfitLevel } from '../types/position';
 import { ProfileSummary, SnipeDisplay, DisplayConfig } from '../types/cli';
 import { NetworkDetector, NetworkStatusEvent } from '../core/network-detector';
+import { PoolCreatedEvent } from '../core/pool-watcher';
+import { ScheduledArmEvent, ScheduledFireEvent } from '../core/snipe-scheduler';
+import { BondingTriggerEvent, PoolGraduatedEvent } from '../core/bonding-monitor';
+import { SnipeWallets } from '../core/snipe-wallets';
+import { SnipeSettings } from '../core/snipe-settings';
 
 export class CLIInterface {
   private commandHandler: CommandHandler;
@@ -128,18 +136,33 @@ export class CLIInterface {
       { name: '🔄 Switch Profile', value: 'switch-profile' },
       { name: '📋 List Profiles', value: 'list-profiles' },
       { name: '🗑️  Delete Profile', value: 'delete-profile' },
+      { name: '💸 Budget Caps', value: 'budget', disabled: !currentProfile },
       
       new inquirer.Separator(chalk.hex(this.displayConfig.colors.primary)('═══ SNIPE MANAGEMENT ═══')),
       { name: '📍 Add Snipe', value: 'add-snipe', disabled: !currentProfile },
       { name: '📊 List Snipes', value: 'list-snipes', disabled: !currentProfile },
+      { name: '📜 Snipe History', value: 'snipe-history', disabled: !currentProfile },
       { name: '💰 Show Wallet Addresses', value: 'show-wallets', disabled: !currentProfile },
       { name: '🔀 Toggle Snipe', value: 'toggle-snipe', disabled: !currentProfile },
+      { name: '♻️  Reset Snipe', value: 'reset-snipe', disabled: !currentProfile },
+      { name: '🛡️  Set Price Limits', value: 'price-limits', disabled: !currentProfile },
+      { name: '🪜 Set Tranches', value: 'tranches', disabled: !currentProfile },
+      { name: '📉 Slippage Schedule', value: 'slippage', disabled: !currentProfile },
+      { name: '⚙️  Snipe Settings', value: 'snipe-settings', disabled: !currentProfile },
+      { name: '🎯 Set Exit Rules', value: 'exit-rules', disabled: !currentProfile },
+      { name: '🏁 Set Priority', value: 'priority', disabled: !currentProfile },
+      { name: '🪭 Fan-out Wallets', value: 'fan-out', disabled: !currentProfile },
+      { name: '⏰ Schedule Launch', value: 'schedule', disabled: !currentProfile },
+      { name: '🌱 Bonding Trigger', value: 'bonding-trigger', disabled: !currentProfile },
       { name: '🗑️  Remove Snipe', value: 'remove-snipe', disabled: !currentProfile },
       { name: '🧪 Test Snipe (REGTEST)', value: 'test-snipe', disabled: !currentProfile },
+      { name: '🎭 Rehearse Snipe (REGTEST swap)', value: 'rehearse-snipe', disabled: !currentProfile },
       
       new inquirer.Separator(chalk.hex(this.displayConfig.colors.primary)('═══ MONITORING ═══')),
       { name: '🔍 Start Monitoring', value: 'start-monitoring', disabled: !currentProfile },
+      { name: '📝 Start Paper Monitoring (dry run)', value: 'start-paper-monitoring', disabled: !currentProfile },
       { name: '⏹️  Stop Monitoring', value: 'stop-monitoring', disabled: !networkStatus.data?.isMonitoring },
+      { name: '📈 Positions', value: 'positions', disabled: !currentProfile },
       { name: '📊 Network Status', value: 'network-status' },
       
       new inquirer.Separator(chalk.hex(this.displayConfig.colors.primary)('═══ SYSTEM ═══')),
@@ -210,30 +233,75 @@ export class CLIInterface {
       case 'delete-profile':
         await this.handleDeleteProfile();
         break;
+      case 'budget':
+        await this.handleBudget();
+        break;
       case 'add-snipe':
         await this.handleAddSnipe();
         break;
       case 'list-snipes':
         await this.handleListSnipes();
         break;
+      case 'snipe-history':
+        await this.handleSnipeHistory();
+        break;
       case 'show-wallets':
         await this.handleShowWallets();
         break;
       case 'toggle-snipe':
         await this.handleToggleSnipe();
         break;
+      case 'reset-snipe':
+        await this.handleResetSnipe();
+        break;
+      case 'price-limits':
+        await this.handlePriceLimits();
+        break;
+      case 'tranches':
+        await this.handleTranches();
+        break;
+      case 'slippage':
+        await this.handleSlippage();
+        break;
+      case 'snipe-settings':
+        await this.handleSnipeSettings();
+        break;
+      case 'exit-rules':
+        await this.handleExitRules();
+        break;
+      case 'priority':
+        await this.handlePriority();
+        break;
+      case 'schedule':
+        await this.handleSchedule();
+        break;
+      case 'fan-out':
+        await this.handleFanOut();
+        break;
+      case 'bonding-trigger':
+        await this.handleBondingTrigger();
+        break;
       case 'remove-snipe':
         await this.handleRemoveSnipe();
         break;
       case 'test-snipe':
         await this.handleTestSnipe();
         break;
+      case 'rehearse-snipe':
+        await this.handleRehearseSnipe();
+        break;
       case 'start-monitoring':
         await this.handleStartMonitoring();
         break;
+      case 'start-paper-monitoring':
+        await this.handleStartMonitoring(true);
+        break;
       case 'stop-monitoring':
         await this.handleStopMonitoring();
         break;
+      case 'positions':
+        await this.handlePositions();
+        break;
       case 'network-status':
         await this.handleNetworkStatus();
         break;
@@ -372,10 +440,23 @@ export class CLIInterface {
           if (isNaN(num) || num <= 0) return 'Invalid amount';
           return true;
         }
+      },
+      {
+        type: 'input',
+        name: 'walletCount',
+        message: 'Wallets to split the amount across:',
+        default: '1',
+        validate: (input) => {
+          const num = Number(input);
+          if (!Number.isInteger(num) || num < 1 || num > SnipeWallets.MAX_WALLETS) {
+            return `Enter a whole number between 1 and ${SnipeWallets.MAX_WALLETS}`;
+          }
+          return true;
+        }
       }
     ]);
 
-    const result = await this.commandHandler.addSnipe(answers.tokenAddress.trim(), answers.amountBtc.trim());
+    const result = await this.commandHandler.addSnipe(answers.tokenAddress.trim(), answers.amountBtc.trim(), Number(answers.walletCount));
     this.displayResult(result);
     await this.pressAnyKey();
   }
@@ -412,7 +493,7 @@ export class CLIInterface {
 
     const snipes = snipesResult.data as Snipe[];
     const currentProfile = this.commandHandler.getCurrentProfile();
-    const network = currentProfile?.settings.network || 'REGTEST';
+    const { network } = SnipeSettings.resolve(currentProfile?.settings);
     
     console.log(chalk.gray(`Network: ${network}\n`));
     
@@ -421,17 +502,28 @@ export class CLIInterface {
       console.log(chalk.hex('#00D9FF')(`═══ Snipe #${index + 1} ${status} ═══`));
       console.log(chalk.gray('Token:'), chalk.yellow(snipe.tokenAddress.substring(0, 20) + '...'));
       console.log(chalk.gray('Amount:'), chalk.green(`${snipe.amountBtc} BTC`));
-      
-      // Show Spark address
-      console.log(chalk.gray('Spark:'), chalk.cyan(snipe.walletAddress));
-      
-      // Show Bitcoin address if available
-      if (snipe.bitcoinAddress) {
-        console.log(chalk.gray('Bitcoin:'), chalk.hex('#FFA500')(snipe.bitcoinAddress));
-        console.log(chalk.dim('        ↑ Fund this address with BTC'));
-      } else {
-        console.log(chalk.yellow('Bitcoin: Not available (regenerate wallet)'));
-      }
+
+      // Fan-out snipes need every wallet funded with its share of the amount
+      const wallets = SnipeWallets.list(snipe);
+      const shares = SnipeWallets.splitAmount(Math.floor(parseFloat(snipe.amountBtc) * 100000000), wallets.length);
+
+      wallets.forEach((wallet, walletIndex) => {
+        if (wallets.length > 1) {
+          const share = ((shares[walletIndex] || 0) / 100000000).toFixed(8);
+          console.log(chalk.gray(`Wallet ${walletIndex + 1}/${wallets.length}:`), chalk.green(`${share} BTC`));
+        }
+
+        // Show Spark address
+        console.log(chalk.gray('Spark:'), chalk.cyan(wallet.address));
+        
+        // Show Bitcoin address if available
+        if (wallet.bitcoinAddress) {
+          console.log(chalk.gray('Bitcoin:'), chalk.hex('#FFA500')(wallet.bitcoinAddress));
+          console.log(chalk.dim('        ↑ Fund this address with BTC'));
+        } else {
+          console.log(chalk.yellow('Bitcoin: Not available (regenerate wallet)'));
+        }
+      });
       
       console.log(chalk.gray('Status:'), snipe.status);
       console.log();
@@ -440,7 +532,8 @@ export class CLIInterface {
     console.log(chalk.hex('#00D9FF')('═'.repeat(50)));
     console.log(chalk.yellow('\n📝 IMPORTANT:'));
     console.log(chalk.gray('• Fund the ') + chalk.hex('#FFA500')('Bitcoin (bcrt1p...)') + chalk.gray(' addresses with BTC'));
-    console.log(chalk.gray('• Each snipe has its own dedicated wallet'));
+    console.log(chalk.gray('• Each snipe has its own dedicated wallets'));
+    console.log(chalk.gray('• Fan-out snipes split their amount evenly, fund each wallet with its share'));
     console.log(chalk.gray('• Fund each wallet with the BTC amount + gas fees'));
     console.log(chalk.gray('• Wallets are encrypted and stored securely'));
     console.log(chalk.gray(`• Currently on ${network} network\n`));
@@ -478,9 +571,9 @@ export class CLIInterface {
   }
 
   /**
-   * Handle remove snipe
+   * Handle reset snipe
    */
-  private async handleRemoveSnipe(): Promise<void> {
+  private async handleResetSnipe(): Promise<void> {
     const snipesResult = await this.commandHandler.listSnipes();
     
     if (!snipesResult.success || !snipesResult.data || snipesResult.data.length === 0) {
@@ -490,38 +583,40 @@ export class CLIInterface {
     }
 
     const choices = snipesResult.data.map((snipe: Snipe, index: number) => ({
-      name: `${index + 1}. ${snipe.tokenAddress.substring(0, 10)}... → ${snipe.amountBtc} BTC`,
+      name: `${index + 1}. ${snipe.tokenAddress.substring(0, 10)}... → ${snipe.amountBtc} BTC (${snipe.status})`,
       value: (index + 1).toString()
     }));
 
     const { snipeIndex } = await inquirer.prompt([{
       type: 'list',
       name: 'snipeIndex',
-      message: 'Select snipe to remove:',
+      message: 'Select snipe to reset:',
       choices
     }]);
 
-    const { confirm } = await inquirer.prompt([{
-      type: 'confirm',
-      name: 'confirm',
-      message: 'Are you sure you want to remove this snipe?',
-      default: false
-    }]);
+    const snipe: Snipe = snipesResult.data[parseInt(snipeIndex, 10) - 1];
+    if (snipe.status === 'SUCCESS' || snipe.status === 'UNRESOLVED') {
+      const { confirm } = await inquirer.prompt([{
+        type: 'confirm',
+        name: 'confirm',
+        message: chalk.yellow(`This snipe ${snipe.status === 'SUCCESS' ? 'already bought' : 'may already have bought'}. Resetting lets it buy again. Continue?`),
+        default: false
+      }]);
 
-    if (confirm) {
-      const result = await this.commandHandler.removeSnipe(snipeIndex);
-      this.displayResult(result);
-    } else {
-      console.log(chalk.gray('Cancelled.'));
+      if (!confirm) {
+        return;
+      }
     }
-    
+
+    const result = await this.commandHandler.resetSnipe(snipeIndex);
+    this.displayResult(result);
     await this.pressAnyKey();
   }
 
   /**
-   * Handle test snipe
+   * Handle set priority
    */
-  private async handleTestSnipe(): Promise<void> {
+  private async handlePriority(): Promise<void> {
     const snipesResult = await this.commandHandler.listSnipes();
     
     if (!snipesResult.success || !snipesResult.data || snipesResult.data.length === 0) {
@@ -531,129 +626,1110 @@ export class CLIInterface {
     }
 
     const choices = snipesResult.data.map((snipe: Snipe, index: number) => ({
-      name: `${index + 1}. ${snipe.tokenAddress.substring(0, 10)}... → ${snipe.amountBtc} BTC`,
+      name: `${index + 1}. ${snipe.tokenAddress.substring(0, 10)}... → ${snipe.amountBtc} BTC (priority ${snipe.priority || 0})`,
       value: (index + 1).toString()
     }));
 
-    const { snipeIndex } = await inquirer.prompt([{
-      type: 'list',
-      name: 'snipeIndex',
-      message: 'Select snipe to test:',
-      choices
-    }]);
+    const answers = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'snipeIndex',
+        message: 'Select snipe:',
+        choices
+      },
+      {
+        type: 'input',
+        name: 'priority',
+        message: 'Priority (higher launches first, 0 = default):',
+        default: '0',
+        validate: (input: string) => {
+          const num = Number(input);
+          if (!Number.isInteger(num) || num < -100 || num > 100) return 'Enter a whole number between -100 and 100';
+          return true;
+        }
+      }
+    ]);
 
-    console.log(chalk.yellow('🧪 Testing snipe on REGTEST network...'));
-    const result = await this.commandHandler.testSnipe(snipeIndex);
+    const result = await this.commandHandler.setSnipePriority(answers.snipeIndex, answers.priority);
     this.displayResult(result);
     await this.pressAnyKey();
   }
 
   /**
-   * Handle start monitoring
+   * Handle bonding trigger
    */
-  private async handleStartMonitoring(): Promise<void> {
-    const result = await this.commandHandler.startMonitoring();
-    this.displayResult(result);
+  private async handleBondingTrigger(): Promise<void> {
+    const snipesResult = await this.commandHandler.listSnipes();
     
-    if (result.success) {
-      await this.enterMonitoringMode();
-    } else {
+    if (!snipesResult.success || !snipesResult.data || snipesResult.data.length === 0) {
+      console.log(chalk.yellow('No snipes configured.'));
       await this.pressAnyKey();
+      return;
     }
+
+    const choices = snipesResult.data.map((snipe: Snipe, index: number) => ({
+      name: `${index + 1}. ${snipe.tokenAddress.substring(0, 10)}... → ${snipe.amountBtc} BTC ${snipe.bondingTrigger ? '🌱' : ''}`,
+      value: (index + 1).toString()
+    }));
+
+    const optionalPercent = (input: string) => {
+      if (!input.trim()) return true;
+      const num = parseFloat(input);
+      if (isNaN(num) || num < 0 || num > 100) return 'Enter a percentage between 0 and 100 or leave blank';
+      return true;
+    };
+
+    const answers = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'snipeIndex',
+        message: 'Select snipe:',
+        choices
+      },
+      {
+        type: 'input',
+        name: 'minProgressPct',
+        message: 'Buy once bonding progress reaches % (blank for none):',
+        validate: optionalPercent
+      },
+      {
+        type: 'input',
+        name: 'maxProgressPct',
+        message: 'Only buy while bonding progress is below % (blank for none):',
+        validate: optionalPercent
+      },
+      {
+        type: 'confirm',
+        name: 'onGraduation',
+        message: 'Buy right after the pool graduates?',
+        default: false
+      }
+    ]);
+
+    const toNumber = (input: string) => input.trim() ? parseFloat(input) : undefined;
+    const trigger: BondingTrigger = {
+      minProgressPct: toNumber(answers.minProgressPct),
+      maxProgressPct: toNumber(answers.maxProgressPct),
+      onGraduation: answers.onGraduation || undefined
+    };
+
+    const result = await this.commandHandler.setSnipeBondingTrigger(answers.snipeIndex, trigger);
+    this.displayResult(result);
+    await this.pressAnyKey();
   }
 
   /**
-   * Handle stop monitoring
+   * Handle slippage schedule
    */
-  private async handleStopMonitoring(): Promise<void> {
-    const result = this.commandHandler.stopMonitoring();
+  private async handleSlippage(): Promise<void> {
+    const snipesResult = await this.commandHandler.listSnipes();
+    
+    if (!snipesResult.success || !snipesResult.data || snipesResult.data.length === 0) {
+      console.log(chalk.yellow('No snipes configured.'));
+      await this.pressAnyKey();
+      return;
+    }
+
+    const choices = snipesResult.data.map((snipe: Snipe, index: number) => ({
+      name: `${index + 1}. ${snipe.tokenAddress.substring(0, 10)}... → ${snipe.amountBtc} BTC ${snipe.slippageSchedule ? '📉' : ''}`,
+      value: (index + 1).toString()
+    }));
+
+    const percent = (input: string) => {
+      const num = parseFloat(input);
+      if (isNaN(num) || num < 0 || num > 100) return 'Enter a percentage between 0 and 100';
+      return true;
+    };
+
+    const answers = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'snipeIndex',
+        message: 'Select snipe:',
+        choices
+      },
+      {
+        type: 'confirm',
+        name: 'enabled',
+        message: 'Widen slippage on each retry?',
+        default: true
+      },
+      {
+        type: 'input',
+        name: 'startPct',
+        message: 'Slippage of the first attempt %:',
+        default: '5',
+        when: (current) => current.enabled,
+        validate: percent
+      },
+      {
+        type: 'input',
+        name: 'stepPct',
+        message: 'Add per retry %:',
+        default: '5',
+        when: (current) => current.enabled,
+        validate: percent
+      },
+      {
+        type: 'input',
+        name: 'maxPct',
+        message: 'Never exceed %:',
+        default: '25',
+        when: (current) => current.enabled,
+        validate: percent
+      }
+    ]);
+
+    const schedule: SlippageSchedule | undefined = answers.enabled ? {
+      startPct: parseFloat(answers.startPct),
+      stepPct: parseFloat(answers.stepPct),
+      maxPct: parseFloat(answers.maxPct)
+    } : undefined;
+
+    const result = await this.commandHandler.setSnipeSlippageSchedule(answers.snipeIndex, schedule);
     this.displayResult(result);
     await this.pressAnyKey();
   }
 
   /**
-   * Handle network status
+   * Handle per-snipe overrides of the profile's retry, slippage and network settings
    */
-  private async handleNetworkStatus(): Promise<void> {
-    const result = this.commandHandler.getNetworkStatus();
+  private async handleSnipeSettings(): Promise<void> {
+    const snipesResult = await this.commandHandler.listSnipes();
     
-    if (result.success && result.data) {
-      console.log(chalk.hex(this.displayConfig.colors.primary)('Network Status:'));
-      console.log(`  Network: ${result.data.network}`);
-      console.log(`  Online: ${result.data.isOnline ? '✅' : '❌'}`);
-      console.log(`  Monitoring: ${result.data.isMonitoring ? '🔍' : '⏸️'}`);
-      console.log(`  Last Check: ${result.data.lastCheck}`);
-      if (result.data.latency) {
-        console.log(`  Latency: ${result.data.latency}ms`);
-      }
-    } else {
-      this.displayResult(result);
+    if (!snipesResult.success || !snipesResult.data || snipesResult.data.length === 0) {
+      console.log(chalk.yellow('No snipes configured.'));
+      await this.pressAnyKey();
+      return;
     }
-    
+
+    const snipes: Snipe[] = snipesResult.data;
+    const choices = snipes.map((snipe, index) => ({
+      name: `${index + 1}. ${snipe.tokenAddress.substring(0, 10)}... → ${snipe.amountBtc} BTC ${snipe.settingsOverrides ? '⚙️' : ''}`,
+      value: (index + 1).toString()
+    }));
+
+    const { snipeIndex } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'snipeIndex',
+        message: 'Select snipe:',
+        choices
+      }
+    ]);
+
+    const snipe = snipes[parseInt(snipeIndex, 10) - 1]!;
+    const current = snipe.settingsOverrides || {};
+    const effective = this.commandHandler.getEffectiveSettings(snipe);
+    console.log(chalk.gray(`Currently: ${SnipeSettings.describe(effective).join(', ')}`));
+    console.log(chalk.gray('Leave a value empty to use the profile setting'));
+
+    const optionalNumber = (input: string) => {
+      if (!input.trim()) return true;
+      return isNaN(parseFloat(input)) ? 'Enter a number or leave empty' : true;
+    };
+
+    const answers = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'maxRetries',
+        message: 'Max retries:',
+        default: current.maxRetries?.toString() || '',
+        validate: optionalNumber
+      },
+      {
+        type: 'input',
+        name: 'retryDelay',
+        message: 'Initial retry delay (ms):',
+        default: current.retryDelay?.toString() || '',
+        validate: optionalNumber
+      },
+      {
+        type: 'input',
+        name: 'slippageTolerance',
+        message: 'Slippage tolerance %:',
+        default: current.slippageTolerance?.toString() || '',
+        validate: optionalNumber
+      },
+      {
+        type: 'list',
+        name: 'network',
+        message: 'Network:',
+        choices: [
+          { name: 'Profile setting', value: '' },
+          { name: 'MAINNET', value: 'MAINNET' },
+          { name: 'REGTEST', value: 'REGTEST' }
+        ],
+        default: current.network || ''
+      }
+    ]);
+
+    const toNumber = (input: string): number | undefined => input.trim() ? parseFloat(input) : undefined;
+    const overrides: SnipeSettingsOverrides = {
+      maxRetries: toNumber(answers.maxRetries),
+      retryDelay: toNumber(answers.retryDelay),
+      slippageTolerance: toNumber(answers.slippageTolerance),
+      network: answers.network || undefined
+    };
+
+    const result = await this.commandHandler.setSnipeSettingsOverrides(snipeIndex, overrides);
+    this.displayResult(result);
     await this.pressAnyKey();
   }
 
   /**
-   * Enter monitoring mode
+   * Handle fan-out wallets
    */
-  private async enterMonitoringMode(): Promise<void> {
-    const networkDetector = this.commandHandler.getNetworkDetector();
+  private async handleFanOut(): Promise<void> {
+    const snipesResult = await this.commandHandler.listSnipes();
     
-    // Setup event listeners
-    networkDetector.on('mainnet:online', (event: NetworkStatusEvent) => {
-      console.log(chalk.green('🚀 MAINNET IS ONLINE! EXECUTING SNIPES...'));
-      // TODO: Execute snipes
-    });
+    if (!snipesResult.success || !snipesResult.data || snipesResult.data.length === 0) {
+      console.log(chalk.yellow('No snipes configured.'));
+      await this.pressAnyKey();
+      return;
+    }
 
-    console.log(chalk.hex(this.displayConfig.colors.primary)('═══ MONITORING MODE ═══'));
-    console.log(chalk.gray('Press \'q\' and Enter to quit monitoring'));
-    
-    const { quit } = await inquirer.prompt([{
-      type: 'input',
-      name: 'quit',
-      message: 'Status: Monitoring...',
-      validate: (input) => {
-        if (input.toLowerCase() === 'q') {
+    const choices = snipesResult.data.map((snipe: Snipe, index: number) => ({
+      name: `${index + 1}. ${snipe.tokenAddress.substring(0, 10)}... → ${snipe.amountBtc} BTC (${SnipeWallets.list(snipe).length} wallets)`,
+      value: (index + 1).toString()
+    }));
+
+    const { snipeIndex } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'snipeIndex',
+        message: 'Select snipe:',
+        choices
+      }
+    ]);
+
+    const snipe = snipesResult.data[parseInt(snipeIndex, 10) - 1] as Snipe;
+    const current = SnipeWallets.list(snipe).length;
+
+    if (current >= SnipeWallets.MAX_WALLETS) {
+      console.log(chalk.yellow(`Snipe already has the maximum of ${SnipeWallets.MAX_WALLETS} wallets.`));
+      await this.pressAnyKey();
+      return;
+    }
+
+    const { walletCount } = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'walletCount',
+        message: `Total wallets to split ${snipe.amountBtc} BTC across (currently ${current}):`,
+        default: String(current + 1),
+        validate: (input) => {
+          const num = Number(input);
+          if (!Number.isInteger(num) || num <= current || num > SnipeWallets.MAX_WALLETS) {
+            return `Enter a whole number between ${current + 1} and ${SnipeWallets.MAX_WALLETS}`;
+          }
           return true;
         }
-        return 'Press \'q\' to quit monitoring';
       }
-    }]);
+    ]);
 
-    this.commandHandler.stopMonitoring();
+    const result = await this.commandHandler.setSnipeWalletCount(snipeIndex, walletCount);
+    this.displayResult(result);
+    await this.pressAnyKey();
   }
 
   /**
-   * Display profiles
+   * Handle schedule launch
    */
-  private displayProfiles(profiles: ProfileSummary[]): void {
-    console.log(chalk.hex(this.displayConfig.colors.primary)('Profiles:'));
+  private async handleSchedule(): Promise<void> {
+    const snipesResult = await this.commandHandler.listSnipes();
     
-    for (const profile of profiles) {
-      const statusIcon = profile.isLocked ? '🔒' : '📁';
-      const snipeInfo = `${profile.activeSnipeCount}/${profile.snipeCount} snipes`;
-      
-      console.log(`  ${statusIcon} ${chalk.cyan(profile.name)} - ${chalk.gray(snipeInfo)}`);
+    if (!snipesResult.success || !snipesResult.data || snipesResult.data.length === 0) {
+      console.log(chalk.yellow('No snipes configured.'));
+      await this.pressAnyKey();
+      return;
     }
-  }
 
-  /**
-   * Display snipes
-   */
-  private displaySnipes(snipes: Snipe[]): void {
-    console.log(chalk.hex(this.displayConfig.colors.primary)('\n📊 CONFIGURED SNIPES\n'));
-    
-    for (let i = 0; i < snipes.length; i++) {
-      const snipe = snipes[i]!;
-      const statusIcon = snipe.isActive ? chalk.green('✅ ACTIVE') : chalk.gray('⏸️  INACTIVE');
-      
-      console.log(chalk.hex('#00D9FF')(`═══ Snipe #${i + 1} ${statusIcon} ═══`));
-      console.log(chalk.gray('Token:'), chalk.yellow(snipe.tokenAddress.substring(0, 30) + '...'));
-      console.log(chalk.gray('Amount:'), chalk.green(`${snipe.amountBtc} BTC`));
-      console.log(chalk.gray('Wallet:'), chalk.cyan(snipe.walletAddress));
-      console.log(chalk.gray('Status:'), snipe.status);
-      if (snipe.lastTestedAt) {
-        console.log(chalk.gray('Last tested:'), new Date(snipe.lastTestedAt).toLocaleString());
+    const choices = snipesResult.data.map((snipe: Snipe, index: number) => ({
+      name: `${index + 1}. ${snipe.tokenAddress.substring(0, 10)}... → ${snipe.amountBtc} BTC ${snipe.executeAt ? '⏰' : ''}`,
+      value: (index + 1).toString()
+    }));
+
+    const answers = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'snipeIndex',
+        message: 'Select snipe:',
+        choices
+      },
+      {
+        type: 'input',
+        name: 'executeAt',
+        message: 'Launch time, e.g. 2026-01-31T18:00:00Z (blank to clear):',
+        validate: (input: string) => {
+          if (!input.trim()) return true;
+          return !isNaN(new Date(input.trim()).getTime()) || 'Enter a valid date and time';
+        }
+      },
+      {
+        type: 'input',
+        name: 'preFireOffsetMs',
+        message: 'Fire this many ms early to absorb latency:',
+        default: '0',
+        when: (current: any) => !!current.executeAt.trim()
+      }
+    ]);
+
+    const result = await this.commandHandler.setSnipeSchedule(answers.snipeIndex, answers.executeAt, answers.preFireOffsetMs || '');
+    this.displayResult(result);
+    await this.pressAnyKey();
+  }
+
+  /**
+   * Handle snipe history
+   */
+  private async handleSnipeHistory(): Promise<void> {
+    const snipesResult = await this.commandHandler.listSnipes();
+    
+    if (!snipesResult.success || !snipesResult.data || snipesResult.data.length === 0) {
+      console.log(chalk.yellow('No snipes configured.'));
+      await this.pressAnyKey();
+      return;
+    }
+
+    const choices = snipesResult.data.map((snipe: Snipe, index: number) => ({
+      name: `${index + 1}. ${snipe.tokenAddress.substring(0, 10)}... → ${snipe.amountBtc} BTC (${snipe.history?.length || 0} runs)`,
+      value: index
+    }));
+
+    const { snipeIndex } = await inquirer.prompt([{
+      type: 'list',
+      name: 'snipeIndex',
+      message: 'Select snipe:',
+      choices
+    }]);
+
+    this.displaySnipeHistory(snipesResult.data[snipeIndex]);
+    await this.pressAnyKey();
+  }
+
+  /**
+   * Handle set price limits
+   */
+  private async handlePriceLimits(): Promise<void> {
+    const snipesResult = await this.commandHandler.listSnipes();
+    
+    if (!snipesResult.success || !snipesResult.data || snipesResult.data.length === 0) {
+      console.log(chalk.yellow('No snipes configured.'));
+      await this.pressAnyKey();
+      return;
+    }
+
+    const choices = snipesResult.data.map((snipe: Snipe, index: number) => ({
+      name: `${index + 1}. ${snipe.tokenAddress.substring(0, 10)}... → ${snipe.amountBtc} BTC ${snipe.priceLimits ? '🛡️' : ''}`,
+      value: (index + 1).toString()
+    }));
+
+    const optionalNumber = (input: string) => {
+      if (!input.trim()) return true;
+      const num = parseFloat(input);
+      if (isNaN(num) || num <= 0) return 'Enter a positive number or leave blank';
+      return true;
+    };
+
+    const answers = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'snipeIndex',
+        message: 'Select snipe:',
+        choices
+      },
+      {
+        type: 'input',
+        name: 'maxPricePerToken',
+        message: 'Max price per token in sats (blank for none):',
+        validate: optionalNumber
+      },
+      {
+        type: 'input',
+        name: 'maxPriceImpactPct',
+        message: 'Max price impact % (blank for none):',
+        validate: optionalNumber
+      },
+      {
+        type: 'input',
+        name: 'minTokensOut',
+        message: 'Min tokens out (blank for none):',
+        validate: optionalNumber
+      },
+      {
+        type: 'list',
+        name: 'onBreach',
+        message: 'When a limit is breached:',
+        choices: [
+          { name: 'Abort the snipe', value: 'ABORT' },
+          { name: 'Keep re-checking until a deadline', value: 'WAIT' }
+        ]
+      },
+      {
+        type: 'input',
+        name: 'waitTimeoutSec',
+        message: 'Re-check deadline in seconds:',
+        default: '30',
+        when: (current) => current.onBreach === 'WAIT',
+        validate: optionalNumber
+      }
+    ]);
+
+    const limits: PriceLimits = {
+      maxPricePerToken: answers.maxPricePerToken.trim() ? parseFloat(answers.maxPricePerToken) : undefined,
+      maxPriceImpactPct: answers.maxPriceImpactPct.trim() ? parseFloat(answers.maxPriceImpactPct) : undefined,
+      minTokensOut: answers.minTokensOut.trim() || undefined,
+      onBreach: answers.onBreach,
+      waitTimeoutMs: answers.waitTimeoutSec ? parseFloat(answers.waitTimeoutSec) * 1000 : undefined
+    };
+
+    const hasLimit = limits.maxPricePerToken !== undefined ||
+      limits.maxPriceImpactPct !== undefined ||
+      limits.minTokensOut !== undefined;
+
+    const result = await this.commandHandler.setSnipePriceLimits(answers.snipeIndex, hasLimit ? limits : undefined);
+    this.displayResult(result);
+    await this.pressAnyKey();
+  }
+
+  /**
+   * Handle set tranches
+   */
+  private async handleTranches(): Promise<void> {
+    const snipesResult = await this.commandHandler.listSnipes();
+    
+    if (!snipesResult.success || !snipesResult.data || snipesResult.data.length === 0) {
+      console.log(chalk.yellow('No snipes configured.'));
+      await this.pressAnyKey();
+      return;
+    }
+
+    const choices = snipesResult.data.map((snipe: Snipe, index: number) => ({
+      name: `${index + 1}. ${snipe.tokenAddress.substring(0, 10)}... → ${snipe.amountBtc} BTC ${snipe.tranches ? `🪜 x${snipe.tranches.count}` : ''}`,
+      value: (index + 1).toString()
+    }));
+
+    const positiveNumber = (input: string) => {
+      const num = parseFloat(input);
+      if (isNaN(num) || num <= 0) return 'Enter a positive number';
+      return true;
+    };
+
+    const answers = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'snipeIndex',
+        message: 'Select snipe:',
+        choices
+      },
+      {
+        type: 'input',
+        name: 'count',
+        message: 'Number of tranches (1 for a single swap):',
+        default: '3',
+        validate: (input) => {
+          const num = parseInt(input, 10);
+          if (isNaN(num) || num < 1 || num > 20) return 'Enter a number between 1 and 20';
+          return true;
+        }
+      },
+      {
+        type: 'list',
+        name: 'mode',
+        message: 'Tranche schedule:',
+        choices: [
+          { name: 'Fixed spacing', value: 'FIXED' },
+          { name: 'Wait until price impact drops', value: 'IMPACT' }
+        ],
+        when: (current) => parseInt(current.count, 10) > 1
+      },
+      {
+        type: 'input',
+        name: 'spacingSec',
+        message: (current) => current.mode === 'IMPACT' ? 'Re-check interval in seconds:' : 'Seconds between tranches:',
+        default: '2',
+        when: (current) => parseInt(current.count, 10) > 1,
+        validate: positiveNumber
+      },
+      {
+        type: 'input',
+        name: 'maxPriceImpactPct',
+        message: 'Fire next tranche below price impact %:',
+        default: '2',
+        when: (current) => current.mode === 'IMPACT',
+        validate: positiveNumber
+      },
+      {
+        type: 'input',
+        name: 'maxWaitSec',
+        message: 'Give up on remaining tranches after seconds:',
+        default: '60',
+        when: (current) => current.mode === 'IMPACT',
+        validate: positiveNumber
+      }
+    ]);
+
+    const count = parseInt(answers.count, 10);
+    const tranches: TrancheSchedule | undefined = count > 1 ? {
+      count,
+      mode: answers.mode,
+      spacingMs: parseFloat(answers.spacingSec) * 1000,
+      maxPriceImpactPct: answers.maxPriceImpactPct ? parseFloat(answers.maxPriceImpactPct) : undefined,
+      maxWaitMs: answers.maxWaitSec ? parseFloat(answers.maxWaitSec) * 1000 : undefined
+    } : undefined;
+
+    const result = await this.commandHandler.setSnipeTranches(answers.snipeIndex, tranches);
+    this.displayResult(result);
+    await this.pressAnyKey();
+  }
+
+  /**
+   * Handle set exit rules
+   */
+  private async handleExitRules(): Promise<void> {
+    const snipesResult = await this.commandHandler.listSnipes();
+    
+    if (!snipesResult.success || !snipesResult.data || snipesResult.data.length === 0) {
+      console.log(chalk.yellow('No snipes configured.'));
+      await this.pressAnyKey();
+      return;
+    }
+
+    const choices = snipesResult.data.map((snipe: Snipe, index: number) => ({
+      name: `${index + 1}. ${snipe.tokenAddress.substring(0, 10)}... → ${snipe.amountBtc} BTC ${snipe.exitRules ? '🎯' : ''}`,
+      value: (index + 1).toString()
+    }));
+
+    const optionalNumber = (input: string) => {
+      if (!input.trim()) return true;
+      const num = parseFloat(input);
+      if (isNaN(num) || num <= 0) return 'Enter a positive number or leave blank';
+      return true;
+    };
+
+    const answers = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'snipeIndex',
+        message: 'Select snipe:',
+        choices
+      },
+      {
+        type: 'input',
+        name: 'takeProfit',
+        message: 'Take-profit levels as multiple:sell% (e.g. 2:50,5:100, blank for none):',
+        validate: (input: string) => {
+          if (!input.trim()) return true;
+          return this.parseTakeProfitLevels(input) ? true : 'Use multiple:sell% pairs with multiple > 1 and sell% up to 100';
+        }
+      },
+      {
+        type: 'input',
+        name: 'stopLossPct',
+        message: 'Stop-loss % below entry (blank for none):',
+        validate: (input: string) => {
+          const valid = optionalNumber(input);
+          if (valid !== true) return valid;
+          return !input.trim() || parseFloat(input) < 100 ? true : 'Stop-loss must be below 100%';
+        }
+      },
+      {
+        type: 'input',
+        name: 'maxHoldMin',
+        message: 'Sell everything after minutes (blank for none):',
+        validate: optionalNumber
+      }
+    ]);
+
+    const exitRules: ExitRules = {
+      takeProfit: answers.takeProfit.trim() ? this.parseTakeProfitLevels(answers.takeProfit) || undefined : undefined,
+      stopLossPct: answers.stopLossPct.trim() ? parseFloat(answers.stopLossPct) : undefined,
+      maxHoldMs: answers.maxHoldMin.trim() ? parseFloat(answers.maxHoldMin) * 60000 : undefined
+    };
+
+    const hasRule = exitRules.takeProfit !== undefined ||
+      exitRules.stopLossPct !== undefined ||
+      exitRules.maxHoldMs !== undefined;
+
+    const result = await this.commandHandler.setSnipeExitRules(answers.snipeIndex, hasRule ? exitRules : undefined);
+    this.displayResult(result);
+    await this.pressAnyKey();
+  }
+
+  /**
+   * Parse take-profit levels from "multiple:sell%" pairs
+   */
+  private parseTakeProfitLevels(input: string): TakeProfitLevel[] | null {
+    const levels: TakeProfitLevel[] = [];
+
+    for (const pair of input.split(',')) {
+      const [multiple, sellPct] = pair.split(':').map(part => parseFloat(part.trim()));
+      if (multiple === undefined || sellPct === undefined || isNaN(multiple) || isNaN(sellPct) ||
+          multiple <= 1 || sellPct <= 0 || sellPct > 100) {
+        return null;
+      }
+      levels.push({ multiple, sellPct });
+    }
+
+    return levels.sort((a, b) => a.multiple - b.multiple);
+  }
+
+  /**
+   * Handle budget caps
+   */
+  private async handleBudget(): Promise<void> {
+    const budgetResult = await this.commandHandler.getBudget();
+    if (!budgetResult.success) {
+      this.displayResult(budgetResult);
+      await this.pressAnyKey();
+      return;
+    }
+
+    const { usage, maxTotalSpendBtc, maxSpendPerToken, dailySpendCapBtc } = budgetResult.data;
+    const formatBtc = (sats: number) => `${(sats / 100000000).toFixed(8)} BTC`;
+
+    console.log(chalk.hex(this.displayConfig.colors.primary)('\n💸 BUDGET\n'));
+    console.log(chalk.gray('Profile spent:'), `${formatBtc(usage.profileSpentSats)} of ${maxTotalSpendBtc ? `${maxTotalSpendBtc} BTC` : 'no cap'}`);
+    console.log(chalk.gray('Per-token cap:'), maxSpendPerToken ? `${maxSpendPerToken} BTC` : 'no cap');
+    for (const [token, sats] of Object.entries(usage.perTokenSpentSats as Record<string, number>)) {
+      console.log(chalk.gray(`   ${token.substring(0, 20)}...`), formatBtc(sats));
+    }
+    console.log(chalk.gray('Spent today (all profiles):'), `${formatBtc(usage.dailySpentSats)} of ${dailySpendCapBtc ? `${dailySpendCapBtc} BTC` : 'no cap'}`);
+    console.log();
+
+    const optionalAmount = (input: string) => {
+      if (!input.trim()) return true;
+      const num = parseFloat(input);
+      if (isNaN(num) || num <= 0) return 'Enter a positive BTC amount or leave blank';
+      return true;
+    };
+
+    const answers = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'maxTotalSpendBtc',
+        message: 'Max total spend for this profile in BTC (blank for no cap):',
+        default: maxTotalSpendBtc || '',
+        validate: optionalAmount
+      },
+      {
+        type: 'input',
+        name: 'maxSpendPerToken',
+        message: 'Max spend per token in BTC (blank for no cap):',
+        default: maxSpendPerToken || '',
+        validate: optionalAmount
+      }
+    ]);
+
+    const result = await this.commandHandler.setBudgetCaps(answers.maxTotalSpendBtc, answers.maxSpendPerToken);
+    this.displayResult(result);
+    await this.pressAnyKey();
+  }
+
+  /**
+   * Handle positions view
+   */
+  private async handlePositions(): Promise<void> {
+    const result = await this.commandHandler.getPositions();
+    
+    if (!result.success) {
+      this.displayResult(result);
+    } else if (result.data.positions.length === 0) {
+      console.log(chalk.yellow('No positions opened yet.'));
+    } else {
+      this.displayPositions(result.data.positions, result.data.isMonitoring);
+    }
+    
+    await this.pressAnyKey();
+  }
+
+  /**
+   * Handle remove snipe
+   */
+  private async handleRemoveSnipe(): Promise<void> {
+    const snipesResult = await this.commandHandler.listSnipes();
+    
+    if (!snipesResult.success || !snipesResult.data || snipesResult.data.length === 0) {
+      console.log(chalk.yellow('No snipes configured.'));
+      await this.pressAnyKey();
+      return;
+    }
+
+    const choices = snipesResult.data.map((snipe: Snipe, index: number) => ({
+      name: `${index + 1}. ${snipe.tokenAddress.substring(0, 10)}... → ${snipe.amountBtc} BTC`,
+      value: (index + 1).toString()
+    }));
+
+    const { snipeIndex } = await inquirer.prompt([{
+      type: 'list',
+      name: 'snipeIndex',
+      message: 'Select snipe to remove:',
+      choices
+    }]);
+
+    const { confirm } = await inquirer.prompt([{
+      type: 'confirm',
+      name: 'confirm',
+      message: 'Are you sure you want to remove this snipe?',
+      default: false
+    }]);
+
+    if (confirm) {
+      const result = await this.commandHandler.removeSnipe(snipeIndex);
+      this.displayResult(result);
+    } else {
+      console.log(chalk.gray('Cancelled.'));
+    }
+    
+    await this.pressAnyKey();
+  }
+
+  /**
+   * Handle rehearse snipe
+   */
+  private async handleRehearseSnipe(): Promise<void> {
+    const snipesResult = await this.commandHandler.listSnipes();
+
+    if (!snipesResult.success || !snipesResult.data || snipesResult.data.length === 0) {
+      console.log(chalk.yellow('No snipes configured.'));
+      await this.pressAnyKey();
+      return;
+    }
+
+    const choices = snipesResult.data.map((snipe: Snipe, index: number) => ({
+      name: `${index + 1}. ${snipe.tokenAddress.substring(0, 10)}... → ${snipe.amountBtc} BTC [${snipe.status}]`,
+      value: (index + 1).toString()
+    }));
+
+    const { snipeIndex, amountBtc, confirmed } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'snipeIndex',
+        message: 'Select snipe to rehearse:',
+        choices
+      },
+      {
+        type: 'input',
+        name: 'amountBtc',
+        message: 'Regtest BTC amount to swap (blank for the snipe amount):',
+        validate: (input: string) => {
+          if (!input.trim()) return true;
+          const num = parseFloat(input);
+          if (isNaN(num) || num <= 0) return 'Invalid amount';
+          return true;
+        }
+      },
+      {
+        type: 'confirm',
+        name: 'confirmed',
+        message: 'This submits a real swap from the snipe\'s regtest wallet. Continue?',
+        default: true
+      }
+    ]);
+
+    if (!confirmed) {
+      console.log(chalk.gray('Cancelled.'));
+      await this.pressAnyKey();
+      return;
+    }
+
+    console.log(chalk.yellow('🎭 Rehearsing snipe on REGTEST network...'));
+    const result = await this.commandHandler.rehearseSnipe(snipeIndex, amountBtc.trim() || undefined);
+    this.displayResult(result);
+    await this.pressAnyKey();
+  }
+
+  /**
+   * Handle test snipe
+   */
+  private async handleTestSnipe(): Promise<void> {
+    const snipesResult = await this.commandHandler.listSnipes();
+    
+    if (!snipesResult.success || !snipesResult.data || snipesResult.data.length === 0) {
+      console.log(chalk.yellow('No snipes configured.'));
+      await this.pressAnyKey();
+      return;
+    }
+
+    const choices = snipesResult.data.map((snipe: Snipe, index: number) => ({
+      name: `${index + 1}. ${snipe.tokenAddress.substring(0, 10)}... → ${snipe.amountBtc} BTC`,
+      value: (index + 1).toString()
+    }));
+
+    const { snipeIndex } = await inquirer.prompt([{
+      type: 'list',
+      name: 'snipeIndex',
+      message: 'Select snipe to test:',
+      choices
+    }]);
+
+    console.log(chalk.yellow('🧪 Testing snipe on REGTEST network...'));
+    const result = await this.commandHandler.testSnipe(snipeIndex);
+    this.displayResult(result);
+    await this.pressAnyKey();
+  }
+
+  /**
+   * Handle start monitoring
+   */
+  private async handleStartMonitoring(dryRun: boolean = false): Promise<void> {
+    if (dryRun) {
+      console.log(chalk.magenta('📝 Paper mode: swaps are simulated and never submitted'));
+    }
+
+    // Subscribe before monitoring starts so the first health check can trigger execution
+    const detachTrigger = this.attachExecutionTrigger();
+    const result = await this.commandHandler.startMonitoring({ dryRun });
+    this.displayResult(result);
+    
+    if (result.success) {
+      await this.enterMonitoringMode();
+    } else {
+      await this.pressAnyKey();
+    }
+
+    detachTrigger();
+  }
+
+  /**
+   * Handle stop monitoring
+   */
+  private async handleStopMonitoring(): Promise<void> {
+    const result = this.commandHandler.stopMonitoring();
+    this.displayResult(result);
+    await this.pressAnyKey();
+  }
+
+  /**
+   * Handle network status
+   */
+  private async handleNetworkStatus(): Promise<void> {
+    const result = this.commandHandler.getNetworkStatus();
+    
+    if (result.success && result.data) {
+      console.log(chalk.hex(this.displayConfig.colors.primary)('Network Status:'));
+      console.log(`  Network: ${result.data.network}`);
+      console.log(`  Online: ${result.data.isOnline ? '✅' : '❌'}`);
+      console.log(`  Monitoring: ${result.data.isMonitoring ? '🔍' : '⏸️'}`);
+      console.log(`  Last Check: ${result.data.lastCheck}`);
+      if (result.data.latency) {
+        console.log(`  Latency: ${result.data.latency}ms`);
+      }
+    } else {
+      this.displayResult(result);
+    }
+    
+    await this.pressAnyKey();
+  }
+
+  /**
+   * Execute snipes when mainnet comes online or a target pool is listed, returns a detach function
+   */
+  private attachExecutionTrigger(): () => void {
+    const networkDetector = this.commandHandler.getNetworkDetector();
+    const poolWatcher = this.commandHandler.getPoolWatcher();
+    const snipeScheduler = this.commandHandler.getSnipeScheduler();
+    const bondingMonitor = this.commandHandler.getBondingMonitor();
+
+    const onMainnetOnline = async (event: NetworkStatusEvent) => {
+      if (!this.commandHandler.isMonitoringArmed()) {
+        console.log(chalk.gray('🟢 Mainnet online again - snipes already executed for this session'));
+        return;
+      }
+
+      console.log(chalk.green('🚀 MAINNET IS ONLINE! EXECUTING SNIPES...'));
+      const result = await this.commandHandler.executeArmedSnipes();
+      this.displayResult(result);
+    };
+
+    const onPoolCreated = async (event: PoolCreatedEvent) => {
+      console.log(chalk.green(`🆕 POOL LISTED FOR ${event.tokenAddress.substring(0, 10)}... EXECUTING SNIPES...`));
+      const result = await this.commandHandler.executeSnipesForPool(event);
+      this.displayResult(result);
+    };
+
+    const onScheduleArm = async (event: ScheduledArmEvent) => {
+      const result = await this.commandHandler.armScheduledSnipes(event);
+      this.displayResult(result);
+    };
+
+    const onScheduleFire = async (event: ScheduledFireEvent) => {
+      console.log(chalk.green(`⏰ LAUNCH TIME REACHED, EXECUTING ${event.snipeIds.length} SCHEDULED SNIPES...`));
+      const result = await this.commandHandler.executeScheduledSnipes(event);
+      this.displayResult(result);
+    };
+
+    const onBondingTrigger = async (event: BondingTriggerEvent) => {
+      console.log(chalk.green(`🌱 BONDING TRIGGER MET (${event.reason}), EXECUTING SNIPE...`));
+      const result = await this.commandHandler.executeTriggeredSnipe(event);
+      this.displayResult(result);
+    };
+
+    const onGraduated = async (event: PoolGraduatedEvent) => {
+      const result = await this.commandHandler.repointGraduatedSnipe(event);
+      this.displayResult(result);
+    };
+
+    networkDetector.on('mainnet:online', onMainnetOnline);
+    poolWatcher.on('pool:created', onPoolCreated);
+    snipeScheduler.on('schedule:arm', onScheduleArm);
+    snipeScheduler.on('schedule:fire', onScheduleFire);
+    bondingMonitor.on('trigger:fired', onBondingTrigger);
+    bondingMonitor.on('pool:graduated', onGraduated);
+
+    return () => {
+      networkDetector.removeListener('mainnet:online', onMainnetOnline);
+      poolWatcher.removeListener('pool:created', onPoolCreated);
+      snipeScheduler.removeListener('schedule:arm', onScheduleArm);
+      snipeScheduler.removeListener('schedule:fire', onScheduleFire);
+      bondingMonitor.removeListener('trigger:fired', onBondingTrigger);
+      bondingMonitor.removeListener('pool:graduated', onGraduated);
+    };
+  }
+
+  /**
+   * Enter monitoring mode
+   */
+  private async enterMonitoringMode(): Promise<void> {
+    console.log(chalk.hex(this.displayConfig.colors.primary)('═══ MONITORING MODE ═══'));
+    console.log(chalk.gray('Press \'q\' and Enter to quit monitoring'));
+    
+    const { quit } = await inquirer.prompt([{
+      type: 'input',
+      name: 'quit',
+      message: 'Status: Monitoring...',
+      validate: (input) => {
+        if (input.toLowerCase() === 'q') {
+          return true;
+        }
+        return 'Press \'q\' to quit monitoring';
+      }
+    }]);
+
+    this.commandHandler.stopMonitoring();
+  }
+
+  /**
+   * Display profiles
+   */
+  private displayProfiles(profiles: ProfileSummary[]): void {
+    console.log(chalk.hex(this.displayConfig.colors.primary)('Profiles:'));
+    
+    for (const profile of profiles) {
+      const statusIcon = profile.isLocked ? '🔒' : '📁';
+      const snipeInfo = `${profile.activeSnipeCount}/${profile.snipeCount} snipes`;
+      
+      console.log(`  ${statusIcon} ${chalk.cyan(profile.name)} - ${chalk.gray(snipeInfo)}`);
+    }
+  }
+
+  /**
+   * Display snipes
+   */
+  private displaySnipes(snipes: Snipe[]): void {
+    console.log(chalk.hex(this.displayConfig.colors.primary)('\n📊 CONFIGURED SNIPES\n'));
+    
+    for (let i = 0; i < snipes.length; i++) {
+      const snipe = snipes[i]!;
+      const statusIcon = snipe.isActive ? chalk.green('✅ ACTIVE') : chalk.gray('⏸️  INACTIVE');
+      
+      console.log(chalk.hex('#00D9FF')(`═══ Snipe #${i + 1} ${statusIcon} ═══`));
+      console.log(chalk.gray('Token:'), chalk.yellow(snipe.tokenAddress.substring(0, 30) + '...'));
+      console.log(chalk.gray('Amount:'), chalk.green(`${snipe.amountBtc} BTC`));
+      console.log(chalk.gray('Wallet:'), chalk.cyan(snipe.walletAddress));
+      if (SnipeWallets.isFanOut(snipe)) {
+        console.log(chalk.gray('Fan-out:'), `${SnipeWallets.list(snipe).length} wallets`);
+      }
+      console.log(chalk.gray('Status:'), snipe.status);
+      console.log(chalk.gray('Settings:'), SnipeSettings.describe(this.commandHandler.getEffectiveSettings(snipe)).join(', '));
+      if (snipe.priority) {
+        console.log(chalk.gray('Priority:'), snipe.priority);
+      }
+      if (snipe.executeAt) {
+        const early = snipe.preFireOffsetMs ? ` (fires ${snipe.preFireOffsetMs}ms early)` : '';
+        console.log(chalk.gray('Launch:'), `${new Date(snipe.executeAt).toLocaleString()}${early}`);
+      }
+      if (snipe.bondingTrigger) {
+        const { minProgressPct, maxProgressPct, onGraduation } = snipe.bondingTrigger;
+        const parts = [
+          minProgressPct !== undefined ? `from ${minProgressPct}%` : null,
+          maxProgressPct !== undefined ? `below ${maxProgressPct}%` : null,
+          onGraduation ? 'on graduation' : null
+        ].filter(Boolean);
+        console.log(chalk.gray('Bonding:'), parts.join(', '));
+      }
+      if (snipe.targetPoolId) {
+        console.log(chalk.gray('Target pool:'), chalk.cyan(snipe.targetPoolId.substring(0, 30) + '...'));
+      }
+      if (snipe.lastTestedAt) {
+        console.log(chalk.gray('Last rehearsed:'), new Date(snipe.lastTestedAt).toLocaleString());
+      }
+      if (snipe.executedAt) {
+        console.log(chalk.gray('Executed:'), new Date(snipe.executedAt).toLocaleString());
+      }
+      if (snipe.history && snipe.history.length > 0) {
+        const tests = snipe.history.filter(h => h.type === 'TEST').length;
+        const rehearsals = snipe.history.filter(h => h.type === 'REHEARSAL').length;
+        console.log(chalk.gray('History:'), `${tests} tests, ${rehearsals} rehearsals, ${snipe.history.length - tests - rehearsals} executions`);
+      }
+      if (snipe.tranches) {
+        console.log(chalk.gray('Split:'), `${snipe.tranches.count} tranches (${snipe.tranches.mode})`);
+      }
+      if (snipe.slippageSchedule) {
+        const { startPct, stepPct, maxPct } = snipe.slippageSchedule;
+        console.log(chalk.gray('Slippage:'), `${startPct}% +${stepPct}%/retry, max ${maxPct}%`);
+      }
+      if (snipe.exitRules) {
+        const { takeProfit, stopLossPct, maxHoldMs } = snipe.exitRules;
+        const parts = [
+          ...(takeProfit || []).map(level => `TP ${level.multiple}x sell ${level.sellPct}%`),
+          stopLossPct !== undefined ? `SL -${stopLossPct}%` : null,
+          maxHoldMs !== undefined ? `exit after ${Math.round(maxHoldMs / 60000)}m` : null
+        ].filter(Boolean);
+        console.log(chalk.gray('Exits:'), parts.join(', '));
+      }
+      if (snipe.priceLimits) {
+        const { maxPricePerToken, maxPriceImpactPct, minTokensOut, onBreach } = snipe.priceLimits;
+        const parts = [
+          maxPricePerToken !== undefined ? `≤${maxPricePerToken} sats/token` : null,
+          maxPriceImpactPct !== undefined ? `≤${maxPriceImpactPct}% impact` : null,
+          minTokensOut !== undefined ? `≥${minTokensOut} tokens` : null
+        ].filter(Boolean);
+        console.log(chalk.gray('Limits:'), `${parts.join(', ')} (${onBreach})`);
+      }
+      if (snipe.lastResult) {
+        const outcome = snipe.lastResult.success ? chalk.green('success') : chalk.red(snipe.lastResult.error || 'failed');
+        const paperLabel = snipe.lastResult.simulated ? chalk.magenta(' [PAPER]') : '';
+        const verifyLabel = snipe.lastResult.verification === 'UNVERIFIED' ? chalk.red(' [UNVERIFIED]') : '';
+        console.log(chalk.gray('Last run:'), `${outcome}${paperLabel}${verifyLabel}`);
+
+        if (snipe.lastResult.verification) {
+          console.log(chalk.gray('Verified:'), `${snipe.lastResult.verifiedTokens} of ${snipe.lastResult.reportedTokens} reported tokens in wallet`);
+        }
+
+        const lastAttempt = snipe.lastResult.attemptLog?.[snipe.lastResult.attemptLog.length - 1];
+        if (lastAttempt) {
+          console.log(chalk.gray('Attempts:'), `${snipe.lastResult.attempts}, last error ${lastAttempt.errorClass} (${lastAttempt.reason})`);
+        }
+
+        if (snipe.lastResult.slippagePct !== undefined) {
+          console.log(chalk.gray('Filled at:'), `${snipe.lastResult.slippagePct}% slippage, min out ${snipe.lastResult.minAmountOut}`);
+        }
+
+        const tranches = snipe.lastResult.tranches;
+        if (tranches && tranches.length > 0) {
+          const filled = tranches.filter(t => t.success).length;
+          const average = snipe.lastResult.averagePrice !== undefined
+            ? `, avg ${snipe.lastResult.averagePrice.toFixed(8)} sats/token`
+            : '';
+          console.log(chalk.gray('Tranches:'), `${filled}/${tranches.length} filled${average}`);
+        }
+
+        const legs = snipe.lastResult.wallets;
+        if (legs && legs.length > 0) {
+          console.log(chalk.gray('Wallets:'), `${legs.filter(leg => leg.success).length}/${legs.length} filled`);
+        }
       }
       console.log();
     }
@@ -663,6 +1739,88 @@ export class CLIInterface {
     }
   }
 
+  /**
+   * Display every test and execution of a snipe, newest first
+   */
+  private displaySnipeHistory(snipe: Snipe): void {
+    console.log(chalk.hex(this.displayConfig.colors.primary)(`\n📜 HISTORY ${snipe.tokenAddress.substring(0, 20)}...\n`));
+    console.log(chalk.gray('Status:'), snipe.status);
+
+    const transitions = snipe.statusHistory || [];
+    if (transitions.length > 0) {
+      console.log(chalk.gray('\nStatus changes:'));
+      for (const transition of transitions.slice(-10)) {
+        console.log(`   ${chalk.gray(new Date(transition.timestamp).toLocaleString())} ` +
+                    `${transition.from} → ${chalk.cyan(transition.to)} ${chalk.gray(transition.reason)}`);
+      }
+    }
+
+    const history = snipe.history || [];
+    if (history.length === 0) {
+      console.log(chalk.yellow('\nNo tests or executions recorded yet.'));
+      return;
+    }
+
+    for (const entry of [...history].reverse()) {
+      const outcome = entry.success ? chalk.green('✅ success')
+        : entry.cancelled ? chalk.yellow('⏹️  cancelled')
+        : entry.skipped ? chalk.yellow('⏭️  skipped')
+        : chalk.red('❌ failed');
+      const labels = [
+        entry.type === 'TEST' ? chalk.cyan('[TEST]')
+          : entry.type === 'REHEARSAL' ? chalk.blue('[REHEARSAL]')
+          : entry.simulated ? chalk.magenta('[PAPER]') : chalk.hex('#FFA500')('[LIVE]'),
+        entry.recovered ? chalk.yellow('[RECOVERED]') : '',
+        entry.verification === 'UNVERIFIED' ? chalk.red('[UNVERIFIED]') : ''
+      ].filter(Boolean).join(' ');
+
+      console.log();
+      console.log(`${chalk.gray(new Date(entry.timestamp).toLocaleString())} ${labels} ${entry.network} ${outcome} → ${entry.status}`);
+      console.log(chalk.gray('   Attempts:'), `${entry.attempts} in ${entry.executionTime}ms`);
+      if (entry.tokensReceived) {
+        const price = entry.price !== undefined ? ` @ ${entry.price.toFixed(8)} sats/token` : '';
+        console.log(chalk.gray('   Tokens:'), `${entry.tokensReceived}${price}`);
+      }
+      if (entry.transactionHash) {
+        console.log(chalk.gray('   Tx:'), entry.transactionHash);
+      }
+      if (entry.error) {
+        console.log(chalk.gray('   Error:'), chalk.red(entry.error));
+      }
+    }
+  }
+
+  /**
+   * Display positions with their exit ledger
+   */
+  private displayPositions(positions: Position[], isMonitoring: boolean): void {
+    const monitoringStatus = isMonitoring ? chalk.yellow('MONITORING') : chalk.gray('IDLE');
+    console.log(chalk.hex(this.displayConfig.colors.primary)(`\n📈 POSITIONS ${monitoringStatus}\n`));
+
+    for (const position of positions) {
+      const statusIcon = position.status === 'OPEN' ? chalk.green('🟢 OPEN') : chalk.gray('⚪ CLOSED');
+      const pnl = position.realizedSats - position.costSats;
+      const pnlColor = pnl >= 0 ? chalk.green : chalk.red;
+
+      console.log(chalk.hex('#00D9FF')(`═══ ${position.id} ${statusIcon} ═══`));
+      console.log(chalk.gray('Token:'), chalk.yellow(position.tokenAddress.substring(0, 30) + '...'));
+      console.log(chalk.gray('Entry:'), `${position.entryPrice.toFixed(8)} sats/token, ${position.costSats} sats`);
+      console.log(chalk.gray('Holding:'), `${position.tokensRemaining} / ${position.tokensAcquired} tokens`);
+      console.log(chalk.gray('Realized:'), `${position.realizedSats} sats (${pnlColor(`${pnl >= 0 ? '+' : ''}${pnl}`)} vs cost)`);
+
+      for (const entry of position.ledger) {
+        const outcome = entry.error
+          ? chalk.red(`failed${(entry.attempts || 1) > 1 ? ` ${entry.attempts}x` : ''}: ${entry.error}`)
+          : `${entry.sats} sats @ ${entry.price.toFixed(8)}`;
+        console.log(
+          chalk.gray(`  ${new Date(entry.timestamp).toLocaleString()}`),
+          `${entry.type} ${entry.reason} ${entry.tokens} tokens → ${outcome}`
+        );
+      }
+      console.log();
+    }
+  }
+
   /**
    * Display command result
    */
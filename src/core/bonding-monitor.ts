@@ -0,0 +1,308 @@
+import { EventEmitter } from 'events';
+import { FlashNetClient } from '../services/flashnet-client';
+import { PoolResolver } from './pool-resolver';
+import { FlashNetPoolResponse } from '../types/api';
+import { BondingTrigger, Snipe } from '../types/profile';
+import { config } from '../utils/config';
+
+export interface BondingTriggerEvent {
+  snipeId: string;
+  tokenAddress: string;
+  poolId: string;
+  reason: string;
+  bondingProgress: number;
+  isGraduated: boolean;
+  pool: FlashNetPoolResponse;
+  network: 'MAINNET' | 'REGTEST';
+  timestamp: Date;
+}
+
+export interface PoolGraduatedEvent {
+  snipeId: string;
+  tokenAddress: string;
+  fromPoolId?: string;
+  toPoolId: string;
+  pool: FlashNetPoolResponse;
+  network: 'MAINNET' | 'REGTEST';
+  timestamp: Date;
+}
+
+export interface BondingMonitorOptions {
+  pollInterval?: number;      // Polling interval in milliseconds
+  pageSize?: number;          // Pools fetched per page, a poll reads every page
+}
+
+interface TrackedSnipe {
+  snipeId: string;
+  tokenAddress: string;
+  trigger: BondingTrigger;
+  poolId?: string;            // Bonding curve pool once seen
+  graduatedPoolId?: string;
+  lastProgress?: number;
+}
+
+/**
+ * Watches the bonding curve of snipe tokens and fires when a snipe's trigger is met
+ */
+export class BondingMonitor extends EventEmitter {
+  private flashnetClient: FlashNetClient;
+  private pollInterval: number;
+  private pageSize: number;
+
+  private isPolling = false;
+  private pollTimer?: NodeJS.Timeout;
+  private network: 'MAINNET' | 'REGTEST' = 'MAINNET';
+  private tracked: Map<string, TrackedSnipe> = new Map();
+  private lastUpdatedAt?: string;
+
+  constructor(options: BondingMonitorOptions = {}) {
+    super();
+
+    this.flashnetClient = new FlashNetClient();
+    this.pollInterval = options.pollInterval || config.get('mainnetPollInterval');
+    this.pageSize = options.pageSize || 50;
+  }
+
+  /**
+   * Check if a trigger has at least one condition set
+   */
+  public static hasConditions(trigger?: BondingTrigger): trigger is BondingTrigger {
+    return !!trigger && (
+      trigger.minProgressPct !== undefined ||
+      trigger.maxProgressPct !== undefined ||
+      !!trigger.onGraduation
+    );
+  }
+
+  /**
+   * Start watching the bonding curves of snipes that carry a trigger
+   */
+  public async startWatching(snipes: Snipe[], network: 'MAINNET' | 'REGTEST' = 'MAINNET'): Promise<void> {
+    if (this.isPolling) {
+      console.warn('⚠️  Bonding monitor already started');
+      return;
+    }
+
+    this.tracked.clear();
+    for (const snipe of snipes) {
+      if (BondingMonitor.hasConditions(snipe.bondingTrigger)) {
+        this.tracked.set(snipe.id, {
+          snipeId: snipe.id,
+          tokenAddress: snipe.tokenAddress,
+          trigger: snipe.bondingTrigger,
+          poolId: snipe.targetPoolId
+        });
+      }
+    }
+
+    if (this.tracked.size === 0) {
+      return;
+    }
+
+    this.flashnetClient.switchNetwork(network);
+    this.network = network;
+    this.lastUpdatedAt = undefined;
+    this.isPolling = true;
+
+    console.log(`🌱 Watching bonding curves for ${this.tracked.size} snipes`);
+    this.emit('monitor:started', { network, snipeIds: Array.from(this.tracked.keys()), timestamp: new Date() });
+
+    await this.pollPools();
+
+    this.scheduleNextPoll();
+  }
+
+  /**
+   * Stop watching
+   */
+  public stopWatching(): void {
+    if (!this.isPolling) {
+      return;
+    }
+
+    this.isPolling = false;
+
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+
+    this.emit('monitor:stopped', { timestamp: new Date() });
+  }
+
+  /**
+   * Get snipes still waiting for their trigger
+   */
+  public getTrackedSnipeIds(): string[] {
+    return Array.from(this.tracked.keys());
+  }
+
+  /**
+   * Check if currently watching
+   */
+  public isWatching(): boolean {
+    return this.isPolling;
+  }
+
+  /**
+   * Poll for pools updated since the last poll and evaluate triggers against them
+   */
+  private async pollPools(): Promise<void> {
+    if (this.tracked.size === 0) {
+      this.stopWatching();
+      return;
+    }
+
+    try {
+      // The cursor only moves once every page is read, so no update is skipped
+      const pools = await this.flashnetClient.getPoolsUpdatedSince(this.lastUpdatedAt, this.pageSize);
+
+      for (const pool of pools) {
+        if (!this.lastUpdatedAt || pool.updatedAt > this.lastUpdatedAt) {
+          this.lastUpdatedAt = pool.updatedAt;
+        }
+
+        for (const tracked of Array.from(this.tracked.values())) {
+          if (PoolResolver.matchesToken(pool, tracked.tokenAddress)) {
+            this.evaluate(tracked, pool);
+          }
+        }
+      }
+    } catch (error) {
+      this.emit('monitor:error', { error, timestamp: new Date() });
+
+      if (config.get('debug')) {
+        console.log(`🌱 Bonding poll failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+  }
+
+  /**
+   * Apply one pool update to a tracked snipe, firing at most once
+   */
+  private evaluate(tracked: TrackedSnipe, pool: FlashNetPoolResponse): void {
+    const { trigger } = tracked;
+
+    if (pool.isGraduated) {
+      // Graduation moves trading to the post-graduation pool, which the snipe must follow
+      if (tracked.graduatedPoolId !== pool.lpPublicKey) {
+        tracked.graduatedPoolId = pool.lpPublicKey;
+        this.emitGraduated(tracked, pool);
+      }
+
+      // A graduated curve is past every progress threshold
+      if (trigger.onGraduation) {
+        this.fire(tracked, pool, 'pool graduated');
+      } else if (trigger.maxProgressPct !== undefined) {
+        this.expire(tracked, pool, `graduated before reaching a buy window below ${trigger.maxProgressPct}%`);
+      } else {
+        this.fire(tracked, pool, `pool graduated past the ${trigger.minProgressPct}% trigger`);
+      }
+      return;
+    }
+
+    tracked.poolId = pool.lpPublicKey;
+    const progress = pool.bondingProgressPercent || 0;
+    const previous = tracked.lastProgress;
+    tracked.lastProgress = progress;
+
+    // Graduation-only triggers just wait for the pool to graduate
+    if (trigger.minProgressPct === undefined && trigger.maxProgressPct === undefined) {
+      return;
+    }
+
+    if (trigger.maxProgressPct !== undefined && progress >= trigger.maxProgressPct) {
+      if (!trigger.onGraduation) {
+        this.expire(tracked, pool, `bonding progress ${progress}% passed the ${trigger.maxProgressPct}% limit`);
+      }
+      return;
+    }
+
+    if (trigger.minProgressPct === undefined || progress >= trigger.minProgressPct) {
+      const crossed = trigger.minProgressPct !== undefined && previous !== undefined && previous < trigger.minProgressPct;
+      const reason = trigger.minProgressPct === undefined
+        ? `bonding progress ${progress}% below ${trigger.maxProgressPct}%`
+        : `bonding progress ${crossed ? 'crossed' : 'at'} ${progress}% (trigger ${trigger.minProgressPct}%)`;
+      this.fire(tracked, pool, reason);
+    }
+  }
+
+  /**
+   * Stop tracking a snipe and hand it off for execution
+   */
+  private fire(tracked: TrackedSnipe, pool: FlashNetPoolResponse, reason: string): void {
+    this.tracked.delete(tracked.snipeId);
+
+    const event: BondingTriggerEvent = {
+      snipeId: tracked.snipeId,
+      tokenAddress: tracked.tokenAddress,
+      poolId: pool.lpPublicKey,
+      reason,
+      bondingProgress: pool.bondingProgressPercent || 0,
+      isGraduated: pool.isGraduated || false,
+      pool,
+      network: this.network,
+      timestamp: new Date()
+    };
+
+    console.log(`🌱 Trigger met for snipe ${tracked.snipeId}: ${reason}`);
+    this.emit('trigger:fired', event);
+  }
+
+  /**
+   * Stop tracking a snipe whose buy window has closed
+   */
+  private expire(tracked: TrackedSnipe, pool: FlashNetPoolResponse, reason: string): void {
+    this.tracked.delete(tracked.snipeId);
+
+    console.log(`🌱 Trigger expired for snipe ${tracked.snipeId}: ${reason}`);
+    this.emit('trigger:expired', {
+      snipeId: tracked.snipeId,
+      tokenAddress: tracked.tokenAddress,
+      poolId: pool.lpPublicKey,
+      reason,
+      timestamp: new Date()
+    });
+  }
+
+  /**
+   * Announce that a snipe's token has a post-graduation pool
+   */
+  private emitGraduated(tracked: TrackedSnipe, pool: FlashNetPoolResponse): void {
+    const event: PoolGraduatedEvent = {
+      snipeId: tracked.snipeId,
+      tokenAddress: tracked.tokenAddress,
+      fromPoolId: tracked.poolId !== pool.lpPublicKey ? tracked.poolId : undefined,
+      toPoolId: pool.lpPublicKey,
+      pool,
+      network: this.network,
+      timestamp: new Date()
+    };
+
+    this.emit('pool:graduated', event);
+  }
+
+  /**
+   * Schedule next poll
+   */
+  private scheduleNextPoll(): void {
+    if (!this.isPolling) {
+      return;
+    }
+
+    this.pollTimer = setTimeout(async () => {
+      if (this.isPolling) {
+        await this.pollPools();
+        this.scheduleNextPoll();
+      }
+    }, this.pollInterval);
+  }
+
+  /**
+   * Cleanup resources
+   */
+  public destroy(): void {
+    this.stopWatching();
+    this.removeAllListeners();
+  }
+}
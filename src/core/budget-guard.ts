@@ -0,0 +1,238 @@
+import fs from 'fs/promises';
+import { BudgetDecision, BudgetLimits, BudgetScope, BudgetUsage, SpendLedgerEntry, SpendRequest } from '../types/budget';
+import { FileManager } from '../utils/file-manager';
+
+/**
+ * Enforces spending caps with a ledger shared by every profile, so the daily cap
+ * holds even when profiles run in separate processes
+ */
+export class BudgetGuard {
+  private static readonly LOCK_TIMEOUT = 5000;
+  private static readonly STALE_LOCK_AGE = 10000;
+  private static readonly LOCK_RETRY_DELAY = 10;
+
+  private ledgerPath: string;
+  private lockPath: string;
+  private reservations: Map<string, SpendLedgerEntry> = new Map();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(baseDir: string) {
+    this.ledgerPath = FileManager.getSpendLedgerFilePath(baseDir);
+    this.lockPath = `${this.ledgerPath}.lock`;
+  }
+
+  /**
+   * Convert an optional BTC amount setting to satoshis
+   */
+  public static toSats(amountBtc?: string): number | undefined {
+    if (!amountBtc) {
+      return undefined;
+    }
+
+    const amount = parseFloat(amountBtc);
+    return isNaN(amount) ? undefined : Math.floor(amount * 100000000);
+  }
+
+  /**
+   * Reserve a spend if it fits within every cap, checking and recording it as one step
+   */
+  public async reserve(limits: BudgetLimits, request: SpendRequest): Promise<BudgetDecision> {
+    return this.serialize(() => this.withLedgerLock(async () => {
+      const usage = this.summarize(await this.readLedger(), limits.profileName);
+      const refusal = this.findRefusal(limits, request, usage);
+      if (refusal) {
+        return { allowed: false, ...refusal };
+      }
+
+      const entry: SpendLedgerEntry = {
+        reservationId: this.generateReservationId(),
+        profileName: limits.profileName,
+        snipeId: request.snipeId,
+        tokenAddress: request.tokenAddress,
+        amountSats: request.amountSats,
+        stage: 'RESERVED',
+        timestamp: new Date().toISOString()
+      };
+
+      await FileManager.appendJsonLine(this.ledgerPath, entry);
+      this.reservations.set(entry.reservationId, entry);
+
+      return { allowed: true, reservationId: entry.reservationId };
+    }));
+  }
+
+  /**
+   * Settle a reservation as spent or release it back to the budget
+   */
+  public async settle(reservationId: string, spent: boolean): Promise<void> {
+    // Reservations made by an earlier run are only known from the ledger
+    const reservation = this.reservations.get(reservationId) || await this.findOpenReservation(reservationId);
+    if (!reservation) {
+      console.warn(`⚠️  Spend reservation ${reservationId} is unknown or already settled, it stays as recorded in the ledger`);
+      return;
+    }
+
+    this.reservations.delete(reservationId);
+
+    // An unsettled reservation keeps counting as spent, which errs on the safe side
+    try {
+      await FileManager.appendJsonLine<SpendLedgerEntry>(this.ledgerPath, {
+        ...reservation,
+        stage: spent ? 'SPENT' : 'RELEASED',
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      console.warn(`⚠️  Failed to settle spend reservation ${reservationId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get what a profile has spent, and what all profiles spent today
+   */
+  public async getUsage(profileName: string): Promise<BudgetUsage> {
+    return this.summarize(await this.readLedger(), profileName);
+  }
+
+  /**
+   * Read the ledger, tolerating a missing file
+   */
+  private async readLedger(): Promise<SpendLedgerEntry[]> {
+    return FileManager.readJsonLines<SpendLedgerEntry>(this.ledgerPath);
+  }
+
+  /**
+   * Find a reservation in the ledger that was never settled
+   */
+  private async findOpenReservation(reservationId: string): Promise<SpendLedgerEntry | undefined> {
+    const entries = (await this.readLedger()).filter(entry => entry.reservationId === reservationId);
+    const latest = entries[entries.length - 1];
+    return latest?.stage === 'RESERVED' ? latest : undefined;
+  }
+
+  /**
+   * Total the reservations that were not released
+   */
+  private summarize(entries: SpendLedgerEntry[], profileName: string): BudgetUsage {
+    const latest: Map<string, SpendLedgerEntry> = new Map();
+    const reservedAt: Map<string, string> = new Map();
+
+    for (const entry of entries) {
+      latest.set(entry.reservationId, entry);
+      if (entry.stage === 'RESERVED') {
+        reservedAt.set(entry.reservationId, entry.timestamp);
+      }
+    }
+
+    const today = new Date().toISOString().substring(0, 10);
+    const usage: BudgetUsage = { profileSpentSats: 0, dailySpentSats: 0, perTokenSpentSats: {} };
+
+    for (const [reservationId, entry] of latest) {
+      if (entry.stage === 'RELEASED') {
+        continue;
+      }
+
+      // Spend counts towards the UTC day it was reserved on
+      if ((reservedAt.get(reservationId) || entry.timestamp).startsWith(today)) {
+        usage.dailySpentSats += entry.amountSats;
+      }
+
+      if (entry.profileName === profileName) {
+        usage.profileSpentSats += entry.amountSats;
+        usage.perTokenSpentSats[entry.tokenAddress] = (usage.perTokenSpentSats[entry.tokenAddress] || 0) + entry.amountSats;
+      }
+    }
+
+    return usage;
+  }
+
+  /**
+   * Find the first cap a spend would exceed
+   */
+  private findRefusal(
+    limits: BudgetLimits,
+    request: SpendRequest,
+    usage: BudgetUsage
+  ): { scope: BudgetScope; reason: string } | null {
+    const formatBtc = (sats: number) => `${(sats / 100000000).toFixed(8)} BTC`;
+    const tokenSpent = usage.perTokenSpentSats[request.tokenAddress] || 0;
+
+    if (limits.dailySpendCapSats !== undefined && usage.dailySpentSats + request.amountSats > limits.dailySpendCapSats) {
+      return {
+        scope: 'DAILY',
+        reason: `Daily spend cap of ${formatBtc(limits.dailySpendCapSats)} reached (${formatBtc(usage.dailySpentSats)} spent today)`
+      };
+    }
+
+    if (limits.maxTotalSpendSats !== undefined && usage.profileSpentSats + request.amountSats > limits.maxTotalSpendSats) {
+      return {
+        scope: 'PROFILE_TOTAL',
+        reason: `Profile spend cap of ${formatBtc(limits.maxTotalSpendSats)} reached (${formatBtc(usage.profileSpentSats)} spent)`
+      };
+    }
+
+    if (limits.maxSpendPerTokenSats !== undefined && tokenSpent + request.amountSats > limits.maxSpendPerTokenSats) {
+      return {
+        scope: 'PER_TOKEN',
+        reason: `Per-token spend cap of ${formatBtc(limits.maxSpendPerTokenSats)} reached (${formatBtc(tokenSpent)} spent on this token)`
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Run reservations from this process one at a time
+   */
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Hold an exclusive lock file while reading and appending, shared with other processes
+   */
+  private async withLedgerLock<T>(task: () => Promise<T>): Promise<T> {
+    const deadline = Date.now() + BudgetGuard.LOCK_TIMEOUT;
+
+    while (true) {
+      try {
+        const handle = await fs.open(this.lockPath, 'wx');
+        await handle.close();
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+
+        // A process that died holding the lock must not block spending forever
+        const stats = await FileManager.getFileStats(this.lockPath);
+        if (stats && Date.now() - stats.mtimeMs > BudgetGuard.STALE_LOCK_AGE) {
+          await fs.unlink(this.lockPath).catch(() => undefined);
+          continue;
+        }
+
+        if (Date.now() > deadline) {
+          throw new Error('Timed out waiting for the spend ledger lock');
+        }
+
+        await new Promise(resolve => setTimeout(resolve, BudgetGuard.LOCK_RETRY_DELAY));
+      }
+    }
+
+    try {
+      return await task();
+    } finally {
+      await fs.unlink(this.lockPath).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Generate unique reservation ID
+   */
+  private generateReservationId(): string {
+    const timestamp = Date.now().toString(36);
+    const random = Math.random().toString(36).substr(2, 5);
+    return `spend_${timestamp}_${random}`;
+  }
+}
@@ -0,0 +1,74 @@
+import { FlashNetClient } from '../services/flashnet-client';
+import { ServerTimeSample } from '../types/api';
+
+export interface ClockSyncResult {
+  offsetMs: number;           // Add to the local clock to get server time
+  roundTripMs: number;        // Of the sample the offset was taken from
+  source: ServerTimeSample['source'];
+  samples: number;
+  syncedAt: Date;
+}
+
+/**
+ * Estimates how far the local clock is from the FlashNet server clock
+ */
+export class ClockSync {
+  private flashnetClient: FlashNetClient;
+  private lastSync?: ClockSyncResult;
+
+  constructor(flashnetClient: FlashNetClient) {
+    this.flashnetClient = flashnetClient;
+  }
+
+  /**
+   * Sample the server clock and keep the offset from the fastest round trip,
+   * since it has the least network delay folded into it
+   */
+  public async sync(sampleCount: number = 5): Promise<ClockSyncResult> {
+    const samples: ServerTimeSample[] = [];
+
+    for (let i = 0; i < sampleCount; i++) {
+      try {
+        samples.push(await this.flashnetClient.getServerTime());
+      } catch {
+        // A lost sample is fine as long as one gets through
+      }
+    }
+
+    const best = samples.sort((a, b) => a.roundTripMs - b.roundTripMs)[0];
+    if (!best) {
+      throw new Error(`Clock sync failed, no server time in ${sampleCount} attempts`);
+    }
+
+    this.lastSync = {
+      offsetMs: Math.round(best.serverTime - best.localTime),
+      roundTripMs: best.roundTripMs,
+      source: best.source,
+      samples: samples.length,
+      syncedAt: new Date()
+    };
+
+    return this.lastSync;
+  }
+
+  /**
+   * Get the current server time estimate in epoch milliseconds
+   */
+  public now(): number {
+    return Date.now() + this.getOffset();
+  }
+
+  /**
+   * Get the last measured offset, zero before the first sync
+   */
+  public getOffset(): number {
+    return this.lastSync?.offsetMs || 0;
+  }
+
+  /**
+   * Get the last sync result
+   */
+  public getLastSync(): ClockSyncResult | undefined {
+    return this.lastSync;
+  }
+}
@@ -0,0 +1,235 @@
+import { FlashNetWalletManager, FlashNetWallet } from './flashnet-wallet-manager';
+import { SnipeWallets } from './snipe-wallets';
+import { Profile } from '../types/profile';
+import { JournalEntry, ReconcileReport, RecoveredFill } from '../types/journal';
+import { BackendBalance } from '../types/backend';
+import { FileManager } from '../utils/file-manager';
+import { config } from '../utils/config';
+
+/**
+ * Get the balance a wallet holds of a token, matching any of its identifiers
+ */
+export function getTokenBalance(balance: BackendBalance, tokenKeys: Array<string | undefined>): number {
+  const keys = tokenKeys.filter((key): key is string => !!key);
+
+  for (const [key, token] of Array.from(balance.tokenBalances.entries())) {
+    const identifiers = [key, token.tokenInfo?.tokenIdentifier, token.tokenInfo?.tokenAddress];
+    if (identifiers.some(identifier => identifier && keys.includes(identifier))) {
+      return Number(token.balance);
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Append-only log of every swap a profile submits, written ahead of the swap
+ * so a crash between submitting and saving the result cannot cause a second buy
+ */
+export class ExecutionJournal {
+  private filePath: string;
+
+  constructor(profilePath: string) {
+    this.filePath = FileManager.getJournalFilePath(profilePath);
+  }
+
+  /**
+   * Generate unique swap ID
+   */
+  public static generateSwapId(): string {
+    const timestamp = Date.now().toString(36);
+    const random = Math.random().toString(36).substr(2, 5);
+    return `swap_${timestamp}_${random}`;
+  }
+
+  /**
+   * Append an entry, flushed to disk before returning
+   */
+  public async append(entry: Omit<JournalEntry, 'timestamp'>): Promise<void> {
+    await FileManager.appendJsonLine<JournalEntry>(this.filePath, {
+      ...entry,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Read all journal entries in write order
+   */
+  public async readEntries(): Promise<JournalEntry[]> {
+    return FileManager.readJsonLines<JournalEntry>(this.filePath);
+  }
+
+  /**
+   * Mark that the results of these snipes were saved to the profile
+   */
+  public async markRecorded(snipeIds: string[]): Promise<void> {
+    for (const snipeId of snipeIds) {
+      await this.append({ swapId: ExecutionJournal.generateSwapId(), snipeId, stage: 'RECORDED' });
+    }
+  }
+
+  /**
+   * Resolve swaps that never reached an outcome by checking the wallet balances
+   */
+  public async reconcile(profile: Profile, walletManager: FlashNetWalletManager): Promise<ReconcileReport[]> {
+    const reports: ReconcileReport[] = [];
+    const wallets: Map<string, FlashNetWallet> = new Map();
+
+    for (const [snipeId, swaps] of this.getUnrecordedSwaps(await this.readEntries())) {
+      for (const [swapId, entries] of swaps) {
+        const latest = entries[entries.length - 1]!;
+
+        // The process died before calling the SDK, so nothing was bought
+        if (latest.stage === 'INTENT') {
+          await this.append({ ...this.swapDetails(latest), stage: 'RECONCILED', outcome: 'NOT_SUBMITTED' });
+          reports.push({ snipeId, swapId, outcome: 'NOT_SUBMITTED', poolId: latest.poolId, reservationId: latest.reservationId });
+          continue;
+        }
+
+        if (latest.stage !== 'SUBMITTED') {
+          continue;
+        }
+
+        const snipe = profile.snipes.find(s => s.id === snipeId);
+        if (!snipe) {
+          reports.push({ snipeId, swapId, outcome: 'UNKNOWN', error: 'Snipe no longer exists' });
+          continue;
+        }
+
+        // Fan-out swaps are checked against the wallet that made them
+        const snipeWallet = SnipeWallets.find(snipe, latest.walletAddress);
+        if (!snipeWallet) {
+          reports.push({ snipeId, swapId, outcome: 'UNKNOWN', poolId: latest.poolId, error: 'Wallet no longer belongs to the snipe' });
+          continue;
+        }
+
+        try {
+          let wallet = wallets.get(snipeWallet.address);
+          if (!wallet) {
+            const network = latest.network || (config.get('defaultNetwork') as 'MAINNET' | 'REGTEST');
+            wallet = await walletManager.restoreWallet(snipeWallet.encryptedMnemonic, network);
+            wallets.set(snipeWallet.address, wallet);
+          }
+
+          const balance = await walletManager.getBalance(wallet);
+          const held = getTokenBalance(balance, [latest.assetOutToken, snipe.tokenAddress]);
+          const before = latest.tokenBalanceBefore;
+
+          // Without a balance snapshot only an empty wallet proves the swap did not fill
+          if (before === undefined && held > 0) {
+            reports.push({ snipeId, swapId, outcome: 'UNKNOWN', poolId: latest.poolId, error: `Wallet holds ${held} tokens` });
+            continue;
+          }
+
+          const filled = before !== undefined && held > before;
+          const tokensReceived = filled ? (held - before).toString() : undefined;
+
+          await this.append({
+            ...this.swapDetails(latest),
+            stage: 'RECONCILED',
+            outcome: filled ? 'FILLED' : 'NOT_FILLED',
+            tokensReceived
+          });
+          reports.push({
+            snipeId,
+            swapId,
+            outcome: filled ? 'FILLED' : 'NOT_FILLED',
+            poolId: latest.poolId,
+            reservationId: latest.reservationId,
+            tokensReceived
+          });
+        } catch (error) {
+          reports.push({
+            snipeId,
+            swapId,
+            outcome: 'UNKNOWN',
+            poolId: latest.poolId,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      }
+    }
+
+    wallets.forEach(wallet => walletManager.releaseWallet(wallet));
+    return reports;
+  }
+
+  /**
+   * Collect fills whose snipe result never made it into the profile
+   */
+  public async getRecoveredFills(): Promise<RecoveredFill[]> {
+    const fills: RecoveredFill[] = [];
+
+    for (const [snipeId, swaps] of this.getUnrecordedSwaps(await this.readEntries())) {
+      const fill: RecoveredFill = { snipeId, tokensReceived: 0, amountSats: 0, swaps: 0 };
+
+      for (const entries of swaps.values()) {
+        const latest = entries[entries.length - 1]!;
+        const isFilled = latest.stage === 'CONFIRMED' || (latest.stage === 'RECONCILED' && latest.outcome === 'FILLED');
+        if (!isFilled) {
+          continue;
+        }
+
+        fill.poolId = fill.poolId || latest.poolId;
+        fill.txId = fill.txId || latest.txId;
+        fill.tokensReceived += parseFloat(latest.tokensReceived || '0');
+        fill.amountSats += latest.amountSats || 0;
+        fill.swaps++;
+      }
+
+      if (fill.swaps > 0) {
+        fills.push(fill);
+      }
+    }
+
+    return fills;
+  }
+
+  /**
+   * Group entries written after each snipe's last RECORDED marker by snipe and swap, keeping
+   * swaps still SUBMITTED across the marker since their outcome was never resolved
+   */
+  private getUnrecordedSwaps(entries: JournalEntry[]): Map<string, Map<string, JournalEntry[]>> {
+    const bySnipe: Map<string, Map<string, JournalEntry[]>> = new Map();
+
+    for (const entry of entries) {
+      if (entry.stage === 'RECORDED') {
+        const swaps = bySnipe.get(entry.snipeId);
+        swaps?.forEach((swapEntries, swapId) => {
+          if (swapEntries[swapEntries.length - 1]!.stage !== 'SUBMITTED') {
+            swaps.delete(swapId);
+          }
+        });
+        if (!swaps || swaps.size === 0) {
+          bySnipe.delete(entry.snipeId);
+        }
+        continue;
+      }
+
+      const swaps = bySnipe.get(entry.snipeId) || new Map<string, JournalEntry[]>();
+      swaps.set(entry.swapId, [...(swaps.get(entry.swapId) || []), entry]);
+      bySnipe.set(entry.snipeId, swaps);
+    }
+
+    return bySnipe;
+  }
+
+  /**
+   * Carry the identifying fields of a swap into a follow-up entry
+   */
+  private swapDetails(entry: JournalEntry): Omit<JournalEntry, 'timestamp' | 'stage'> {
+    return {
+      swapId: entry.swapId,
+      snipeId: entry.snipeId,
+      network: entry.network,
+      walletAddress: entry.walletAddress,
+      trancheIndex: entry.trancheIndex,
+      poolId: entry.poolId,
+      assetOutToken: entry.assetOutToken,
+      amountSats: entry.amountSats,
+      minAmountOut: entry.minAmountOut,
+      tokenBalanceBefore: entry.tokenBalanceBefore,
+      reservationId: entry.reservationId
+    };
+  }
+}
@@ -1,27 +1,65 @@
-import { IssuerSparkWallet } from '@buildonspark/issuer-sdk';
-import { FlashnetClient } from '@flashnet/sdk';
 import { EncryptionService } from '../utils/encryption';
 import { BitcoinWalletUtils } from '../utils/bitcoin-wallet';
+import { config } from '../utils/config';
+import { SdkTradingBackend } from '../services/sdk-trading-backend';
+import { FakeTradingBackend } from '../services/fake-trading-backend';
 import { Wallet, WalletGenerationOptions, WalletImportOptions } from '../types/wallet';
+import {
+  BackendBalance,
+  BackendPool,
+  BackendWallet,
+  PoolPage,
+  PoolQuery,
+  SwapExecution,
+  SwapRequest,
+  SwapSimulation,
+  SwapSimulationRequest,
+  TradingBackend
+} from '../types/backend';
 
 export interface FlashNetWallet {
   address: string;
   bitcoinAddress?: string; // Bitcoin Taproot address for funding
-  client: FlashnetClient;
+  handle: BackendWallet;   // Wallet as the trading backend knows it
   encryptedMnemonic?: string;
   network: 'MAINNET' | 'REGTEST';
   createdAt: Date;
 }
 
+// The AMM answered and refused the swap, so nothing was bought
+export class SwapRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SwapRejectedError';
+  }
+}
+
 export class FlashNetWalletManager {
   private encryption: EncryptionService;
+  private backend: TradingBackend;
 
-  constructor() {
+  constructor(backend?: TradingBackend) {
     this.encryption = EncryptionService.getInstance();
+    this.backend = backend || FlashNetWalletManager.createBackend();
+  }
+
+  /**
+   * Create the trading backend selected in the config
+   */
+  public static createBackend(): TradingBackend {
+    // The fake is shared so every component trades against the same pools and balances
+    return config.get('tradingBackend') === 'FAKE' ? FakeTradingBackend.getInstance() : new SdkTradingBackend();
+  }
+
+  /**
+   * Get the trading backend wallets are initialized on
+   */
+  public getBackend(): TradingBackend {
+    return this.backend;
   }
 
   /**
-   * Generate a new FlashNet wallet with SDK
+   * Generate a new FlashNet wallet on the trading backend
    */
   public async generateWallet(options: WalletGenerationOptions): Promise<FlashNetWallet> {
     try {
@@ -36,15 +74,8 @@ export class FlashNetWalletManager {
         mnemonic = crypto.randomBytes(32).toString('hex');
       }
 
-      // Initialize wallet with FlashNet SDK
-      const { wallet } = await IssuerSparkWallet.initialize({
-        mnemonicOrSeed: mnemonic,
-        options: { network: options.network }
-      });
-
-      // Create FlashNet client
-      const client = new FlashnetClient(wallet);
-      await client.initialize(); // Auto-authenticates
+      // Initialize wallet on the trading backend
+      const handle = await this.backend.initializeWallet(mnemonic, options.network);
 
       // Generate Bitcoin Taproot address for funding
       let bitcoinAddress: string | undefined;
@@ -56,9 +87,9 @@ export class FlashNetWalletManager {
       }
 
       const flashNetWallet: FlashNetWallet = {
-        address: client.address,
+        address: handle.address,
         bitcoinAddress,
-        client,
+        handle,
         encryptedMnemonic: this.encryption.encrypt(mnemonic),
         network: options.network,
         createdAt: new Date()
@@ -76,7 +107,7 @@ export class FlashNetWalletManager {
   }
 
   /**
-   * Import wallet from mnemonic using FlashNet SDK
+   * Import wallet from mnemonic on the trading backend
    */
   public async importWallet(options: WalletImportOptions): Promise<FlashNetWallet> {
     try {
@@ -84,15 +115,8 @@ export class FlashNetWalletManager {
         throw new Error('Mnemonic is required for FlashNet wallet import');
       }
 
-      // Initialize wallet with FlashNet SDK
-      const { wallet } = await IssuerSparkWallet.initialize({
-        mnemonicOrSeed: options.mnemonic,
-        options: { network: options.network }
-      });
-
-      // Create FlashNet client
-      const client = new FlashnetClient(wallet);
-      await client.initialize(); // Auto-authenticates
+      // Initialize wallet on the trading backend
+      const handle = await this.backend.initializeWallet(options.mnemonic, options.network);
 
       // Generate Bitcoin Taproot address for funding
       let bitcoinAddress: string | undefined;
@@ -104,9 +128,9 @@ export class FlashNetWalletManager {
       }
 
       const flashNetWallet: FlashNetWallet = {
-        address: client.address,
+        address: handle.address,
         bitcoinAddress,
-        client,
+        handle,
         encryptedMnemonic: this.encryption.encrypt(options.mnemonic),
         network: options.network,
         createdAt: new Date()
@@ -140,60 +164,74 @@ export class FlashNetWalletManager {
   }
 
   /**
-   * Get wallet balance using FlashNet SDK
+   * Get wallet balance from the trading backend
    */
-  public async getBalance(wallet: FlashNetWallet): Promise<any> {
+  public async getBalance(wallet: FlashNetWallet): Promise<BackendBalance> {
     try {
-      return await wallet.client.getBalance();
+      return await this.backend.getBalance(wallet.handle);
     } catch (error) {
       throw new Error(`Failed to get wallet balance: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Execute swap using FlashNet SDK
+   * Execute swap on the trading backend, throwing when the AMM rejects it
    */
-  public async executeSwap(wallet: FlashNetWallet, swapParams: any): Promise<any> {
+  public async executeSwap(wallet: FlashNetWallet, swapParams: SwapRequest): Promise<SwapExecution> {
+    let execution: SwapExecution;
     try {
-      return await wallet.client.executeSwap(swapParams);
+      execution = await this.backend.executeSwap(wallet.handle, swapParams);
     } catch (error) {
       throw new Error(`Failed to execute swap: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+
+    if (!execution.accepted) {
+      throw new SwapRejectedError(`Failed to execute swap: ${execution.error || 'Swap rejected'}`);
+    }
+
+    return execution;
   }
 
   /**
-   * Simulate swap using FlashNet SDK
+   * Simulate swap on the trading backend
    */
-  public async simulateSwap(wallet: FlashNetWallet, swapParams: any): Promise<any> {
+  public async simulateSwap(wallet: FlashNetWallet, swapParams: SwapSimulationRequest): Promise<SwapSimulation> {
     try {
-      return await wallet.client.simulateSwap(swapParams);
+      return await this.backend.simulateSwap(wallet.handle, swapParams);
     } catch (error) {
       throw new Error(`Failed to simulate swap: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * List pools using FlashNet SDK
+   * List pools on the trading backend
    */
-  public async listPools(wallet: FlashNetWallet, params?: any): Promise<any> {
+  public async listPools(wallet: FlashNetWallet, params?: PoolQuery): Promise<PoolPage> {
     try {
-      return await wallet.client.listPools(params);
+      return await this.backend.listPools(wallet.handle, params);
     } catch (error) {
       throw new Error(`Failed to list pools: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Get specific pool using FlashNet SDK
+   * Get specific pool from the trading backend
    */
-  public async getPool(wallet: FlashNetWallet, poolId: string): Promise<any> {
+  public async getPool(wallet: FlashNetWallet, poolId: string): Promise<BackendPool> {
     try {
-      return await wallet.client.getPool(poolId);
+      return await this.backend.getPool(wallet.handle, poolId);
     } catch (error) {
       throw new Error(`Failed to get pool: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Release the backend client of a wallet that is no longer used
+   */
+  public releaseWallet(wallet: FlashNetWallet): void {
+    this.backend.releaseWallet(wallet.handle);
+  }
+
   /**
    * Get decrypted mnemonic
    */
@@ -229,7 +267,7 @@ export class FlashNetWalletManager {
   public async verifyWallet(wallet: FlashNetWallet): Promise<boolean> {
     try {
       // Try to get balance to verify wallet is functional
-      await wallet.client.getBalance();
+      await this.backend.getBalance(wallet.handle);
       return true;
     } catch {
       return false;
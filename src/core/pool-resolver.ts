@@ -0,0 +1,133 @@
+import { FlashNetWalletManager, FlashNetWallet } from './flashnet-wallet-manager';
+import { config } from '../utils/config';
+import { BackendPool } from '../types/backend';
+
+export interface PoolResolverOptions {
+  pageSize?: number;          // Pools fetched per listPools page
+  maxPages?: number;          // Stop scanning after this many pages
+}
+
+// Identifying fields shared by backend pools and FlashNet API pools
+export type PoolIdentity = Partial<Pick<BackendPool, 'assetAAddress' | 'assetBAddress' | 'lpPublicKey' | 'poolId'>>;
+
+interface CachedPool {
+  poolId: string;
+  status?: string;            // Pool status when last fetched
+}
+
+/**
+ * Finds the pool of a token by paging through every pool once, then fetches it
+ * directly by ID for as long as its status stays the same
+ */
+export class PoolResolver {
+  private walletManager: FlashNetWalletManager;
+  private pageSize: number;
+  private maxPages: number;
+  private cache: Map<string, CachedPool> = new Map();
+
+  constructor(walletManager: FlashNetWalletManager, options: PoolResolverOptions = {}) {
+    this.walletManager = walletManager;
+    this.pageSize = options.pageSize || 100;
+    this.maxPages = options.maxPages || 50;
+  }
+
+  /**
+   * Check if a pool belongs to a token on either side, or is the pool the token address names
+   */
+  public static matchesToken(pool: PoolIdentity, tokenAddress: string): boolean {
+    const token = tokenAddress.toLowerCase();
+    return [pool.assetAAddress, pool.assetBAddress, pool.lpPublicKey, pool.poolId].some(id => id?.toLowerCase() === token);
+  }
+
+  /**
+   * Resolve the pool of a token, fetching it directly when the pool ID is already known
+   */
+  public async resolve(wallet: FlashNetWallet, tokenAddress: string, poolId?: string): Promise<BackendPool> {
+    if (poolId) {
+      return this.fetchPool(wallet, poolId);
+    }
+
+    const key = this.getCacheKey(wallet.network, tokenAddress);
+    const cached = this.cache.get(key);
+
+    if (cached) {
+      try {
+        const pool = await this.fetchPool(wallet, cached.poolId);
+
+        // A status change can mean the token trades elsewhere now, so look it up again
+        if (!cached.status || cached.status === pool.status) {
+          cached.status = pool.status;
+          return pool;
+        }
+
+        if (config.get('debug')) {
+          console.log(`🔎 Pool ${cached.poolId.substring(0, 12)}... changed status ${cached.status} → ${pool.status}, resolving again`);
+        }
+      } catch {
+        // Fall through to a fresh scan, the cached pool may be gone
+      }
+
+      this.cache.delete(key);
+    }
+
+    const pool = await this.scanForPool(wallet, tokenAddress);
+    this.cache.set(key, { poolId: pool.poolId, status: pool.status });
+
+    return pool;
+  }
+
+  /**
+   * Forget the cached pool of a token
+   */
+  public invalidate(tokenAddress: string, network?: 'MAINNET' | 'REGTEST'): void {
+    const networks: Array<'MAINNET' | 'REGTEST'> = network ? [network] : ['MAINNET', 'REGTEST'];
+    networks.forEach(n => this.cache.delete(this.getCacheKey(n, tokenAddress)));
+  }
+
+  /**
+   * Forget every cached pool
+   */
+  public clear(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Get a pool by ID
+   */
+  private async fetchPool(wallet: FlashNetWallet, poolId: string): Promise<BackendPool> {
+    const pool = await this.walletManager.getPool(wallet, poolId);
+    if (!pool) {
+      throw new Error(`Pool ${poolId} not found`);
+    }
+
+    return pool;
+  }
+
+  /**
+   * Page through every pool until one matches the token
+   */
+  private async scanForPool(wallet: FlashNetWallet, tokenAddress: string): Promise<BackendPool> {
+    for (let page = 0; page < this.maxPages; page++) {
+      const offset = page * this.pageSize;
+      const { pools, totalCount } = await this.walletManager.listPools(wallet, { limit: this.pageSize, offset });
+
+      const pool = pools.find(p => PoolResolver.matchesToken(p, tokenAddress));
+      if (pool) {
+        return pool;
+      }
+
+      if (pools.length < this.pageSize || offset + pools.length >= totalCount) {
+        break;
+      }
+    }
+
+    throw new Error(`Pool not found for token ${tokenAddress}`);
+  }
+
+  /**
+   * Key the cache by network, since a token has different pools on each
+   */
+  private getCacheKey(network: 'MAINNET' | 'REGTEST', tokenAddress: string): string {
+    return `${network}:${tokenAddress}`;
+  }
+}
@@ -0,0 +1,178 @@
+import { EventEmitter } from 'events';
+import { FlashNetClient } from '../services/flashnet-client';
+import { PoolResolver } from './pool-resolver';
+import { FlashNetPoolResponse } from '../types/api';
+import { config } from '../utils/config';
+
+export interface PoolCreatedEvent {
+  tokenAddress: string;
+  poolId: string;
+  pool: FlashNetPoolResponse;
+  network: 'MAINNET' | 'REGTEST';
+  timestamp: Date;
+}
+
+export interface PoolWatcherOptions {
+  pollInterval?: number;      // Polling interval in milliseconds
+  pageSize?: number;          // Pools fetched per page, a poll reads every page
+}
+
+export class PoolWatcher extends EventEmitter {
+  private flashnetClient: FlashNetClient;
+  private pollInterval: number;
+  private pageSize: number;
+
+  private isPolling = false;
+  private pollTimer?: NodeJS.Timeout;
+  private network: 'MAINNET' | 'REGTEST' = 'MAINNET';
+  private watchedTokens: Map<string, string> = new Map();
+  private lastUpdatedAt?: string;
+
+  constructor(options: PoolWatcherOptions = {}) {
+    super();
+
+    this.flashnetClient = new FlashNetClient();
+    this.pollInterval = options.pollInterval || config.get('mainnetPollInterval');
+    this.pageSize = options.pageSize || 50;
+  }
+
+  /**
+   * Start watching for pools of the given tokens
+   */
+  public async startWatching(tokenAddresses: string[], network: 'MAINNET' | 'REGTEST' = 'MAINNET'): Promise<void> {
+    if (this.isPolling) {
+      console.warn('⚠️  Pool watcher already started');
+      return;
+    }
+
+    this.flashnetClient.switchNetwork(network);
+    this.network = network;
+    this.lastUpdatedAt = undefined;
+    this.watchedTokens.clear();
+    tokenAddresses.forEach(address => this.watchToken(address));
+    this.isPolling = true;
+
+    console.log(`👀 Watching ${this.watchedTokens.size} tokens for new ${network} pools`);
+    this.emit('watcher:started', { network, tokens: this.getWatchedTokens(), timestamp: new Date() });
+
+    // Pools that are already listed fire on the first poll
+    await this.pollPools();
+
+    this.scheduleNextPoll();
+  }
+
+  /**
+   * Stop watching
+   */
+  public stopWatching(): void {
+    if (!this.isPolling) {
+      return;
+    }
+
+    this.isPolling = false;
+
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+
+    this.emit('watcher:stopped', { timestamp: new Date() });
+  }
+
+  /**
+   * Add a token to the watch list
+   */
+  public watchToken(tokenAddress: string): void {
+    this.watchedTokens.set(tokenAddress.toLowerCase(), tokenAddress);
+  }
+
+  /**
+   * Remove a token from the watch list
+   */
+  public unwatchToken(tokenAddress: string): void {
+    this.watchedTokens.delete(tokenAddress.toLowerCase());
+  }
+
+  /**
+   * Get tokens still waiting for a pool
+   */
+  public getWatchedTokens(): string[] {
+    return Array.from(this.watchedTokens.values());
+  }
+
+  /**
+   * Check if currently watching
+   */
+  public isWatching(): boolean {
+    return this.isPolling;
+  }
+
+  /**
+   * Poll for pools created or updated since the last poll
+   */
+  private async pollPools(): Promise<void> {
+    if (this.watchedTokens.size === 0) {
+      return;
+    }
+
+    try {
+      // The cursor only moves once every page is read, so no update is skipped
+      const pools = await this.flashnetClient.getPoolsUpdatedSince(this.lastUpdatedAt, this.pageSize);
+
+      for (const pool of pools) {
+        if (!this.lastUpdatedAt || pool.updatedAt > this.lastUpdatedAt) {
+          this.lastUpdatedAt = pool.updatedAt;
+        }
+
+        const tokenAddress = Array.from(this.watchedTokens.values()).find(token => PoolResolver.matchesToken(pool, token));
+        if (!tokenAddress) {
+          continue;
+        }
+
+        // Each token fires once, later updates to the same pool are ignored
+        this.unwatchToken(tokenAddress);
+
+        const event: PoolCreatedEvent = {
+          tokenAddress,
+          poolId: pool.lpPublicKey,
+          pool,
+          network: this.network,
+          timestamp: new Date()
+        };
+
+        console.log(`🆕 Pool listed for ${tokenAddress.substring(0, 10)}...: ${pool.lpPublicKey.substring(0, 20)}...`);
+        this.emit('pool:created', event);
+      }
+    } catch (error) {
+      this.emit('watcher:error', { error, timestamp: new Date() });
+
+      if (config.get('debug')) {
+        console.log(`👀 Pool poll failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+  }
+
+  /**
+   * Schedule next poll
+   */
+  private scheduleNextPoll(): void {
+    if (!this.isPolling) {
+      return;
+    }
+
+    this.pollTimer = setTimeout(async () => {
+      if (this.isPolling) {
+        await this.pollPools();
+        this.scheduleNextPoll();
+      }
+    }, this.pollInterval);
+  }
+
+  /**
+   * Cleanup resources
+   */
+  public destroy(): void {
+    this.stopWatching();
+    this.removeAllListeners();
+  }
+}
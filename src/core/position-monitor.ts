@@ -0,0 +1,587 @@
+import { EventEmitter } from 'events';
+import { FlashNetWalletManager, FlashNetWallet, SwapRejectedError } from './flashnet-wallet-manager';
+import { ProfileManager } from './profile-manager';
+import { SnipeWallets } from './snipe-wallets';
+import { SnipeSettings, ResolvedSettings } from './snipe-settings';
+import { getTokenBalance } from './execution-journal';
+import { Profile, ProfileSettings, Snipe, SnipeResult } from '../types/profile';
+import { Position, PositionLedgerEntry, ExitReason, WalletHoldings } from '../types/position';
+import { BTC_ASSET_ADDRESS } from '../types/backend';
+import { FileManager } from '../utils/file-manager';
+import { config } from '../utils/config';
+import chalk from 'chalk';
+
+export interface PositionMonitorOptions {
+  pollInterval?: number;       // Price check interval in milliseconds
+  // Network and slippage of exit swaps, config, profile and snipe layered by default
+  resolveSettings?: (snipe: Snipe, profileSettings?: Partial<ProfileSettings>) => ResolvedSettings;
+}
+
+export interface PositionExitEvent {
+  position: Position;
+  entry: PositionLedgerEntry;
+  timestamp: Date;
+}
+
+interface ExitBackoff {
+  failures: number;
+  retryAt: number;
+}
+
+export class PositionMonitor extends EventEmitter {
+  private static readonly MAX_EXIT_FAILURES = 10;
+  private static readonly MAX_EXIT_BACKOFF = 5 * 60 * 1000;
+
+  private walletManager: FlashNetWalletManager;
+  private profileManager: ProfileManager;
+  private pollInterval: number;
+  private resolveSettings: (snipe: Snipe, profileSettings?: Partial<ProfileSettings>) => ResolvedSettings;
+
+  private profileName?: string;
+  private profileSettings?: ProfileSettings;
+  private positions: Position[] = [];
+  private snipes: Map<string, Snipe> = new Map();
+  private wallets: Map<string, FlashNetWallet> = new Map();
+  private exitBackoff: Map<string, ExitBackoff> = new Map();
+  private isPolling = false;
+  private isChecking = false;
+  private pollTimer?: NodeJS.Timeout;
+
+  constructor(baseDir: string, options: PositionMonitorOptions = {}) {
+    super();
+
+    this.walletManager = new FlashNetWalletManager();
+    this.profileManager = new ProfileManager(baseDir);
+    this.pollInterval = options.pollInterval || 5000;
+    this.resolveSettings = options.resolveSettings || ((snipe, profileSettings) => SnipeSettings.resolve(profileSettings, snipe));
+  }
+
+  /**
+   * Load all positions for a profile
+   */
+  public async loadPositions(profileName: string): Promise<Position[]> {
+    const filePath = FileManager.getPositionsFilePath(this.profileManager.getProfilePath(profileName));
+    const positions = await FileManager.readJsonFile<Position[]>(filePath);
+
+    // Convert date strings back to Date objects
+    return (positions || []).map(position => ({
+      ...position,
+      openedAt: new Date(position.openedAt),
+      closedAt: position.closedAt ? new Date(position.closedAt) : undefined,
+      ledger: position.ledger.map(entry => ({ ...entry, timestamp: new Date(entry.timestamp) }))
+    }));
+  }
+
+  /**
+   * Open a position for a filled snipe that has exit rules
+   */
+  public async openPosition(profile: Profile, snipe: Snipe, result: SnipeResult): Promise<Position | null> {
+    if (!snipe.exitRules || !result.success || result.simulated || !result.poolId || !result.tokensReceived) {
+      return null;
+    }
+
+    if (this.profileName && this.profileName !== profile.name) {
+      throw new Error(`Position monitor is tracking profile '${this.profileName}'`);
+    }
+    this.profileSettings = profile.settings;
+
+    // Exits sell from a single wallet, a fan-out fill is spread over several
+    if (SnipeWallets.isFanOut(snipe)) {
+      console.log(chalk.yellow(`⚠️  Snipe ${snipe.id} is split across wallets, exit rules are not applied`));
+      return null;
+    }
+
+    const wallet = await this.getOrRestoreWallet(snipe);
+    const pool = await this.walletManager.getPool(wallet, result.poolId);
+
+    // The target token is whichever side of the pool is not BTC
+    const isBtcAssetA = pool.assetAAddress === BTC_ASSET_ADDRESS;
+    const btcAsset = isBtcAssetA ? pool.assetAAddress : pool.assetBAddress;
+    const tokenAsset = isBtcAssetA ? pool.assetBAddress : pool.assetAAddress;
+
+    // Size the position from what the wallet holds, the AMM's report alone is not proof
+    const tokens = await this.getVerifiedTokens(wallet, result, [tokenAsset, snipe.tokenAddress]);
+    if (tokens <= 0) {
+      console.log(chalk.yellow(`⚠️  Wallet of snipe ${snipe.id} shows none of the bought tokens, no position opened`));
+      return null;
+    }
+
+    // Tranches that did not fill spent nothing
+    const costSats = result.spentSats ?? Math.floor(parseFloat(snipe.amountBtc) * 100000000);
+    const entryPrice = result.verification === 'VERIFIED'
+      ? result.averagePrice ?? result.actualPrice ?? costSats / tokens
+      : costSats / tokens;
+    const openedAt = new Date();
+
+    const position: Position = {
+      id: this.generatePositionId(),
+      snipeId: snipe.id,
+      profileName: profile.name,
+      tokenAddress: snipe.tokenAddress,
+      poolId: result.poolId,
+      tokenAsset,
+      btcAsset,
+      entryPrice,
+      costSats,
+      tokensAcquired: tokens.toString(),
+      tokensRemaining: tokens.toString(),
+      realizedSats: 0,
+      exitRules: snipe.exitRules,
+      triggeredTakeProfits: [],
+      status: 'OPEN',
+      openedAt,
+      ledger: [{
+        type: 'BUY',
+        reason: 'ENTRY',
+        tokens: tokens.toString(),
+        sats: costSats,
+        price: entryPrice,
+        transactionHash: result.transactionHash,
+        timestamp: openedAt
+      }]
+    };
+
+    if (!this.profileName) {
+      this.profileName = profile.name;
+      this.positions = await this.loadPositions(profile.name);
+    }
+
+    this.snipes.set(snipe.id, snipe);
+    this.positions.push(position);
+    await this.savePositions();
+
+    console.log(chalk.hex('#00D9FF')(`📈 Opened position ${position.id} for snipe ${snipe.id}`));
+    this.emit('position:opened', { position, timestamp: openedAt });
+
+    return position;
+  }
+
+  /**
+   * Start watching open positions of a profile
+   */
+  public async startMonitoring(profile: Profile): Promise<number> {
+    if (this.profileName !== profile.name) {
+      this.stopMonitoring();
+      this.profileName = profile.name;
+      this.positions = await this.loadPositions(profile.name);
+      this.releaseWallets();
+      this.exitBackoff.clear();
+    }
+
+    this.profileSettings = profile.settings;
+    profile.snipes.forEach(snipe => this.snipes.set(snipe.id, snipe));
+
+    const openCount = this.getOpenPositions().length;
+    if (openCount === 0 || this.isPolling) {
+      return openCount;
+    }
+
+    this.isPolling = true;
+    console.log(chalk.gray(`📈 Watching ${openCount} open positions (${this.pollInterval}ms intervals)`));
+
+    this.scheduleNextCheck();
+    return openCount;
+  }
+
+  /**
+   * Stop watching positions
+   */
+  public stopMonitoring(): void {
+    this.isPolling = false;
+
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+
+  /**
+   * Get positions still holding tokens
+   */
+  public getOpenPositions(): Position[] {
+    return this.positions.filter(p => p.status === 'OPEN');
+  }
+
+  /**
+   * Check if currently watching positions
+   */
+  public isMonitoring(): boolean {
+    return this.isPolling;
+  }
+
+  /**
+   * Schedule next price check
+   */
+  private scheduleNextCheck(): void {
+    if (!this.isPolling) {
+      return;
+    }
+
+    this.pollTimer = setTimeout(async () => {
+      if (this.isPolling) {
+        await this.checkPositions();
+
+        if (this.getOpenPositions().length === 0) {
+          console.log(chalk.gray('📈 All positions closed'));
+          this.stopMonitoring();
+          return;
+        }
+
+        this.scheduleNextCheck();
+      }
+    }, this.pollInterval);
+  }
+
+  /**
+   * Evaluate exit rules for every open position
+   */
+  private async checkPositions(): Promise<void> {
+    if (this.isChecking) {
+      return;
+    }
+
+    this.isChecking = true;
+    try {
+      for (const position of this.getOpenPositions()) {
+        // Positions whose exit keeps failing wait out their backoff
+        const backoff = this.exitBackoff.get(position.id);
+        if (backoff && Date.now() < backoff.retryAt) {
+          continue;
+        }
+
+        try {
+          await this.evaluatePosition(position);
+        } catch (error) {
+          if (config.get('debug')) {
+            console.log(`📈 Position check failed for ${position.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          }
+        }
+      }
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  /**
+   * Price a position by simulating the sale of its remaining tokens and apply its exit rules
+   */
+  private async evaluatePosition(position: Position): Promise<void> {
+    const snipe = this.snipes.get(position.snipeId);
+    if (!snipe) {
+      return;
+    }
+
+    const wallet = await this.getOrRestoreWallet(snipe);
+
+    // A sell that failed without a rejection may have gone through, so nothing is sold again until it is checked
+    if (await this.settleLandedExit(wallet, position)) {
+      return;
+    }
+
+    const { slippageTolerance } = this.resolveSettings(snipe, this.profileSettings);
+    const tokensRemaining = parseFloat(position.tokensRemaining);
+
+    const simulation = await this.walletManager.simulateSwap(wallet, {
+      poolId: position.poolId,
+      assetInAddress: position.tokenAsset,
+      assetOutAddress: position.btcAsset,
+      amountIn: Math.floor(tokensRemaining).toString()
+    });
+
+    const price = parseFloat(simulation.amountOut || '0') / tokensRemaining;
+    const multiple = price / position.entryPrice;
+    const { takeProfit, stopLossPct, maxHoldMs } = position.exitRules;
+
+    this.emit('position:update', { position, price, multiple, timestamp: new Date() });
+
+    // Full exits take precedence over partial take-profits
+    if (stopLossPct !== undefined && multiple <= 1 - stopLossPct / 100) {
+      await this.sellTokens(wallet, position, tokensRemaining, 'STOP_LOSS', price, slippageTolerance);
+      return;
+    }
+
+    if (maxHoldMs !== undefined && Date.now() - position.openedAt.getTime() >= maxHoldMs) {
+      await this.sellTokens(wallet, position, tokensRemaining, 'TIME_EXIT', price, slippageTolerance);
+      return;
+    }
+
+    for (const [index, level] of (takeProfit || []).entries()) {
+      if (position.triggeredTakeProfits.includes(index) || multiple < level.multiple) {
+        continue;
+      }
+
+      const tokensToSell = Math.min(
+        Math.floor(parseFloat(position.tokensAcquired) * level.sellPct / 100),
+        parseFloat(position.tokensRemaining)
+      );
+
+      const sold = await this.sellTokens(wallet, position, tokensToSell, 'TAKE_PROFIT', price, slippageTolerance, index);
+
+      // A failed sale backs off before the next level is tried
+      if (!sold || position.status === 'CLOSED') {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Swap tokens back to BTC and record the exit in the position ledger, keeping one
+   * failure entry per run of failed attempts
+   */
+  private async sellTokens(
+    wallet: FlashNetWallet,
+    position: Position,
+    tokens: number,
+    reason: ExitReason,
+    price: number,
+    slippageTolerance: number,
+    takeProfitIndex?: number
+  ): Promise<boolean> {
+    const amountIn = Math.floor(tokens);
+    if (amountIn <= 0) {
+      return false;
+    }
+
+    const expectedSats = amountIn * price;
+    const minAmountOut = Math.floor(expectedSats * (1 - slippageTolerance / 100));
+
+    console.log(chalk.yellow(`📉 ${reason}: selling ${amountIn} tokens of position ${position.id}`));
+
+    const holdingsBefore = await this.getHoldings(wallet, position);
+    let entry: PositionLedgerEntry = {
+      type: 'SELL',
+      reason,
+      tokens: amountIn.toString(),
+      sats: 0,
+      price,
+      takeProfitIndex,
+      timestamp: new Date()
+    };
+
+    try {
+      const swapResult = await this.walletManager.executeSwap(wallet, {
+        poolId: position.poolId,
+        assetInAddress: position.tokenAsset,
+        assetOutAddress: position.btcAsset,
+        amountIn: amountIn.toString(),
+        minAmountOut: minAmountOut.toString(),
+        maxSlippageBps: Math.round(slippageTolerance * 100) // Convert percentage to basis points
+      });
+
+      this.applySell(position, entry, parseFloat(swapResult.amountOut || '0'), swapResult.txId);
+    } catch (error) {
+      // Only a rejection proves the tokens were not sold, a timeout may still have sold them
+      const satsOut = error instanceof SwapRejectedError ? undefined : await this.findLandedSell(wallet, position, holdingsBefore, amountIn);
+
+      if (satsOut !== undefined) {
+        this.applySell(position, entry, satsOut);
+      } else {
+        entry = {
+          ...entry,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          attempts: 1,
+          holdingsBefore: error instanceof SwapRejectedError ? undefined : holdingsBefore
+        };
+      }
+    }
+
+    // Repeated failures update the entry of the first one instead of filling the ledger
+    const lastEntry = position.ledger[position.ledger.length - 1];
+    if (entry.error && lastEntry?.type === 'SELL' && lastEntry.error) {
+      entry = Object.assign(lastEntry, { ...entry, attempts: (lastEntry.attempts || 1) + 1 });
+    } else {
+      position.ledger.push(entry);
+    }
+
+    return this.recordExitOutcome(position, entry);
+  }
+
+  /**
+   * Check if the sell behind a failed ledger entry went through after all, recording it when it did
+   */
+  private async settleLandedExit(wallet: FlashNetWallet, position: Position): Promise<boolean> {
+    const lastEntry = position.ledger[position.ledger.length - 1];
+    if (lastEntry?.type !== 'SELL' || !lastEntry.error || !lastEntry.holdingsBefore) {
+      return false;
+    }
+
+    const satsOut = await this.findLandedSell(wallet, position, lastEntry.holdingsBefore, parseFloat(lastEntry.tokens));
+    if (satsOut === undefined) {
+      return false;
+    }
+
+    console.log(chalk.yellow(`🔎 Earlier ${lastEntry.reason} sell of position ${position.id} went through after all`));
+    this.applySell(position, lastEntry, satsOut);
+    await this.recordExitOutcome(position, lastEntry);
+    return true;
+  }
+
+  /**
+   * Get the sats a sell brought in if the wallet shows its tokens left, undefined when it does not
+   * or the balance cannot be read
+   */
+  private async findLandedSell(
+    wallet: FlashNetWallet,
+    position: Position,
+    before: WalletHoldings,
+    amountIn: number
+  ): Promise<number | undefined> {
+    try {
+      const after = await this.getHoldings(wallet, position);
+      return before.tokens - after.tokens >= amountIn ? Math.max(after.sats - before.sats, 0) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Read the position's tokens and the BTC the wallet holds
+   */
+  private async getHoldings(wallet: FlashNetWallet, position: Position): Promise<WalletHoldings> {
+    const balance = await this.walletManager.getBalance(wallet);
+    return {
+      tokens: getTokenBalance(balance, [position.tokenAsset, position.tokenAddress]),
+      sats: Number(balance.balance)
+    };
+  }
+
+  /**
+   * Turn a ledger entry into a completed sell and take its tokens off the position
+   */
+  private applySell(position: Position, entry: PositionLedgerEntry, satsOut: number, transactionHash?: string): void {
+    const amountIn = parseFloat(entry.tokens);
+
+    Object.assign(entry, {
+      sats: satsOut,
+      price: satsOut / amountIn,
+      transactionHash,
+      error: undefined,
+      attempts: undefined,
+      holdingsBefore: undefined,
+      timestamp: new Date()
+    });
+
+    const remaining = parseFloat(position.tokensRemaining) - amountIn;
+    position.tokensRemaining = Math.max(remaining, 0).toString();
+    position.realizedSats += satsOut;
+
+    if (entry.takeProfitIndex !== undefined && !position.triggeredTakeProfits.includes(entry.takeProfitIndex)) {
+      position.triggeredTakeProfits.push(entry.takeProfitIndex);
+    }
+
+    if (remaining <= 0) {
+      position.status = 'CLOSED';
+      position.closedAt = entry.timestamp;
+    }
+  }
+
+  /**
+   * Save a sell attempt, announce it and back off after a failure, returning whether it sold
+   */
+  private async recordExitOutcome(position: Position, entry: PositionLedgerEntry): Promise<boolean> {
+    await this.savePositions();
+
+    const event: PositionExitEvent = { position, entry, timestamp: entry.timestamp };
+    this.emit(entry.error ? 'position:exit_failed' : 'position:exit', event);
+
+    if (entry.error) {
+      const backoff = this.recordExitFailure(position);
+      console.log(chalk.red(`❌ Exit failed for position ${position.id}: ${entry.error}`));
+      console.log(chalk.gray(Number.isFinite(backoff.retryAt)
+        ? `   Retrying in ${Math.round((backoff.retryAt - Date.now()) / 1000)}s (failure ${backoff.failures}/${PositionMonitor.MAX_EXIT_FAILURES})`
+        : `   Exits of position ${position.id} paused after ${backoff.failures} failures, restart monitoring to retry`));
+      return false;
+    }
+
+    this.exitBackoff.delete(position.id);
+
+    console.log(chalk.green(`✅ Sold ${entry.tokens} tokens for ${entry.sats} sats (${entry.reason})`));
+    return true;
+  }
+
+  /**
+   * Count a failed exit and push the position's next attempt back, doubling the wait each time
+   */
+  private recordExitFailure(position: Position): ExitBackoff {
+    const failures = (this.exitBackoff.get(position.id)?.failures || 0) + 1;
+    const delay = Math.min(this.pollInterval * Math.pow(2, failures - 1), PositionMonitor.MAX_EXIT_BACKOFF);
+    const backoff: ExitBackoff = {
+      failures,
+      retryAt: failures >= PositionMonitor.MAX_EXIT_FAILURES ? Infinity : Date.now() + delay
+    };
+
+    this.exitBackoff.set(position.id, backoff);
+    return backoff;
+  }
+
+  /**
+   * Get the tokens a fill put in the wallet: the verified amount, or else the reported
+   * amount capped by the wallet's current balance
+   */
+  private async getVerifiedTokens(
+    wallet: FlashNetWallet,
+    result: SnipeResult,
+    tokenKeys: Array<string | undefined>
+  ): Promise<number> {
+    if (result.verification === 'VERIFIED' && result.verifiedTokens) {
+      return parseFloat(result.verifiedTokens);
+    }
+
+    const held = getTokenBalance(await this.walletManager.getBalance(wallet), tokenKeys);
+    return Math.min(parseFloat(result.tokensReceived || '0'), held);
+  }
+
+  /**
+   * Persist positions for the tracked profile
+   */
+  private async savePositions(): Promise<void> {
+    if (!this.profileName) {
+      return;
+    }
+
+    const filePath = FileManager.getPositionsFilePath(this.profileManager.getProfilePath(this.profileName));
+    await FileManager.writeJsonFile(filePath, this.positions);
+  }
+
+  /**
+   * Get or restore the wallet that holds a snipe's tokens
+   */
+  private async getOrRestoreWallet(snipe: Snipe): Promise<FlashNetWallet> {
+    const cachedWallet = this.wallets.get(snipe.id);
+    if (cachedWallet) {
+      return cachedWallet;
+    }
+
+    const { network } = this.resolveSettings(snipe, this.profileSettings);
+    const wallet = await this.walletManager.restoreWallet(snipe.encryptedMnemonic, network);
+    this.wallets.set(snipe.id, wallet);
+
+    return wallet;
+  }
+
+  /**
+   * Generate unique position ID
+   */
+  private generatePositionId(): string {
+    const timestamp = Date.now().toString(36);
+    const random = Math.random().toString(36).substr(2, 5);
+    return `pos_${timestamp}_${random}`;
+  }
+
+  /**
+   * Cleanup resources
+   */
+  public destroy(): void {
+    this.stopMonitoring();
+    this.removeAllListeners();
+    this.releaseWallets();
+  }
+
+  /**
+   * Drop every cached wallet along with its backend client
+   */
+  private releaseWallets(): void {
+    this.wallets.forEach(wallet => this.walletManager.releaseWallet(wallet));
+    this.wallets.clear();
+  }
+}
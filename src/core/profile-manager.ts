@@ -1,5 +1,25 @@
 import path from 'path';
-import { Profile, ProfileSettings, Snipe, ProfileLock } from '../types/profile';
+import {
+  Profile,
+  ProfileSettings,
+  Snipe,
+  SnipeResult,
+  SnipeHistoryEntry,
+  PoolData,
+  PriceLimits,
+  TrancheSchedule,
+  SlippageSchedule,
+  SnipeSettingsOverrides,
+  BondingTrigger,
+  SnipeWallet,
+  ProfileLock,
+  RehearsalResult
+} from '../types/profile';
+import { ExecutionJournal } from './execution-journal';
+import { SnipeStateMachine } from './snipe-state-machine';
+import { SnipeWallets } from './snipe-wallets';
+import { ReconcileReport } from '../types/journal';
+import { ExitRules } from '../types/position';
 import { ProfileSummary } from '../types/cli';
 import { FileManager } from '../utils/file-manager';
 import { LockManager } from '../utils/lock-manager';
@@ -7,6 +27,8 @@ import { ValidationService } from '../utils/validation';
 import { EncryptionService } from '../utils/encryption';
 
 export class ProfileManager {
+  private static readonly MAX_HISTORY_ENTRIES = 50;
+
   private profilesDir: string;
   private encryption: EncryptionService;
 
@@ -47,14 +69,10 @@ export class ProfileManager {
       // Create profile directory
       const profilePath = await FileManager.createProfileDirectory(this.profilesDir, name);
 
-      // Create default profile configuration
+      // Retries, slippage and network stay unset so the config defaults apply until overridden
       const defaultSettings: ProfileSettings = {
         defaultAmount: '0.05',
-        maxRetries: 20,
-        retryDelay: 2000,
         enableDiscordAlerts: true,
-        slippageTolerance: 10,
-        network: 'REGTEST',
         ...settings
       };
 
@@ -101,7 +119,11 @@ export class ProfileManager {
         ...snipe,
         createdAt: new Date(snipe.createdAt),
         lastTestedAt: snipe.lastTestedAt ? new Date(snipe.lastTestedAt) : undefined,
-        executedAt: snipe.executedAt ? new Date(snipe.executedAt) : undefined
+        executedAt: snipe.executedAt ? new Date(snipe.executedAt) : undefined,
+        executeAt: snipe.executeAt ? new Date(snipe.executeAt) : undefined,
+        poolData: snipe.poolData ? { ...snipe.poolData, lastUpdated: new Date(snipe.poolData.lastUpdated) } : undefined,
+        history: snipe.history?.map(entry => ({ ...entry, timestamp: new Date(entry.timestamp) })),
+        statusHistory: snipe.statusHistory?.map(transition => ({ ...transition, timestamp: new Date(transition.timestamp) }))
       }));
 
       return config;
@@ -134,6 +156,21 @@ export class ProfileManager {
     }
   }
 
+  /**
+   * Update profile settings
+   */
+  public async updateSettings(profileName: string, updates: Partial<ProfileSettings>): Promise<Profile> {
+    const profile = await this.loadProfile(profileName);
+    if (!profile) {
+      throw new Error(`Profile '${profileName}' not found`);
+    }
+
+    profile.settings = { ...profile.settings, ...updates };
+    await this.saveProfile(profile);
+
+    return profile;
+  }
+
   /**
    * Delete a profile
    */
@@ -286,6 +323,360 @@ export class ProfileManager {
     return snipe.isActive;
   }
 
+  /**
+   * Persist execution results onto their snipes
+   */
+  public async recordSnipeResults(
+    profileName: string,
+    results: SnipeResult[],
+    network: 'MAINNET' | 'REGTEST' = 'MAINNET'
+  ): Promise<Profile> {
+    const profile = await this.loadProfile(profileName);
+    if (!profile) {
+      throw new Error(`Profile '${profileName}' not found`);
+    }
+
+    const executedAt = new Date();
+
+    for (const result of results) {
+      const snipe = profile.snipes.find(s => s.id === result.snipeId);
+      if (!snipe) {
+        console.warn(`⚠️  Result for unknown snipe ${result.snipeId} was not saved`);
+        continue;
+      }
+
+      snipe.lastResult = result;
+
+      // Paper, cancelled and skipped runs are kept as the last result without advancing the snipe
+      if (!result.simulated && !result.cancelled && !result.skipped) {
+        snipe.executedAt = executedAt;
+        this.applyExecutionOutcome(snipe, result);
+      }
+
+      this.appendHistory(snipe, 'EXECUTION', network, result);
+    }
+
+    await this.saveProfile(profile);
+
+    // Journaled swaps of these snipes no longer need reconciling after a restart
+    const journal = new ExecutionJournal(this.getProfilePath(profileName));
+    await journal.markRecorded(results.filter(r => !r.simulated).map(r => r.snipeId));
+
+    return profile;
+  }
+
+  /**
+   * Persist a regtest test run onto its snipe
+   */
+  public async recordSnipeTest(
+    profileName: string,
+    snipeId: string,
+    result: SnipeResult,
+    poolData?: PoolData
+  ): Promise<Profile> {
+    const profile = await this.loadProfile(profileName);
+    if (!profile) {
+      throw new Error(`Profile '${profileName}' not found`);
+    }
+
+    const snipe = profile.snipes.find(s => s.id === snipeId);
+    if (!snipe) {
+      throw new Error('Snipe not found');
+    }
+
+    if (poolData) {
+      snipe.poolData = poolData;
+    }
+
+    // A simulation proves nothing about the swap itself, only a rehearsal promotes the snipe
+    this.appendHistory(snipe, 'TEST', 'REGTEST', { ...result, simulated: true });
+
+    await this.saveProfile(profile);
+    return profile;
+  }
+
+  /**
+   * Persist a regtest rehearsal onto its snipe, promoting it to TESTED when it passed
+   */
+  public async recordSnipeRehearsal(profileName: string, snipeId: string, result: RehearsalResult): Promise<Profile> {
+    const profile = await this.loadProfile(profileName);
+    if (!profile) {
+      throw new Error(`Profile '${profileName}' not found`);
+    }
+
+    const snipe = profile.snipes.find(s => s.id === snipeId);
+    if (!snipe) {
+      throw new Error('Snipe not found');
+    }
+
+    snipe.lastTestedAt = new Date();
+
+    // A passing rehearsal only promotes snipes that have not moved further along
+    if (result.success && result.balanceVerified && result.verification === 'VERIFIED' && snipe.status === 'VALIDATED') {
+      SnipeStateMachine.transition(snipe, 'TESTED', `Regtest rehearsal bought ${result.tokensReceived || 0} tokens`);
+    }
+
+    this.appendHistory(snipe, 'REHEARSAL', 'REGTEST', result);
+
+    await this.saveProfile(profile);
+    return profile;
+  }
+
+  /**
+   * Move snipes to READY for monitoring, leaving any that cannot be armed as they are
+   */
+  public async markSnipesReady(profileName: string, snipeIds: string[], reason: string): Promise<Profile> {
+    const profile = await this.loadProfile(profileName);
+    if (!profile) {
+      throw new Error(`Profile '${profileName}' not found`);
+    }
+
+    for (const snipe of profile.snipes.filter(s => snipeIds.includes(s.id))) {
+      SnipeStateMachine.tryTransition(snipe, 'READY', reason);
+    }
+
+    await this.saveProfile(profile);
+    return profile;
+  }
+
+  /**
+   * Settle the status of snipes whose journaled swaps were reconciled, holding back those
+   * still unknown and failing those whose swaps provably did not fill
+   */
+  public async applyReconciliation(profileName: string, reports: ReconcileReport[]): Promise<Profile> {
+    const profile = await this.loadProfile(profileName);
+    if (!profile) {
+      throw new Error(`Profile '${profileName}' not found`);
+    }
+
+    for (const snipe of profile.snipes) {
+      const outcomes = reports.filter(r => r.snipeId === snipe.id).map(r => r.outcome);
+      if (outcomes.includes('UNKNOWN')) {
+        SnipeStateMachine.tryTransition(snipe, 'UNRESOLVED', 'Swap outcome unknown after reconciling the journal');
+      } else if (outcomes.length > 0 && !outcomes.includes('FILLED')) {
+        // Fills were recorded as recovered results, a snipe left without one bought nothing
+        SnipeStateMachine.tryTransition(snipe, 'FAILED', 'Reconciled swaps did not fill');
+      }
+    }
+
+    await this.saveProfile(profile);
+    return profile;
+  }
+
+  /**
+   * Explicitly reset a snipe so it can be tested and executed again
+   */
+  public async resetSnipe(profileName: string, snipeId: string, reason: string): Promise<Snipe> {
+    const profile = await this.loadProfile(profileName);
+    if (!profile) {
+      throw new Error(`Profile '${profileName}' not found`);
+    }
+
+    const snipe = profile.snipes.find(s => s.id === snipeId);
+    if (!snipe) {
+      throw new Error('Snipe not found');
+    }
+
+    SnipeStateMachine.reset(snipe, reason);
+    await this.saveProfile(profile);
+
+    return snipe;
+  }
+
+  /**
+   * Replay the transitions of a finished execution onto the saved snipe
+   */
+  private applyExecutionOutcome(snipe: Snipe, result: SnipeResult): void {
+    // The journal proved a fill, which must stop the snipe buying again whatever it holds now
+    if (result.recovered && result.success) {
+      SnipeStateMachine.recordFill(snipe, `Recovered from execution journal, bought ${result.tokensReceived || 0} tokens`);
+      return;
+    }
+
+    // A snipe saved mid-execution already holds EXECUTING
+    const started = snipe.status === 'EXECUTING' || SnipeStateMachine.tryTransition(
+      snipe,
+      'EXECUTING',
+      result.recovered ? 'Recovered from execution journal' : 'Execution started'
+    );
+
+    if (!started) {
+      console.warn(`⚠️  Snipe ${snipe.id} executed from ${snipe.status}, status left unchanged`);
+      return;
+    }
+
+    const swaps = result.tranches?.length || 1;
+    if (result.attempts > swaps) {
+      SnipeStateMachine.transition(snipe, 'RETRYING', `${result.attempts - swaps} retries`);
+    }
+
+    if (result.success) {
+      SnipeStateMachine.transition(snipe, 'SUCCESS', `Bought ${result.tokensReceived || 0} tokens`);
+    } else if (result.unresolved) {
+      SnipeStateMachine.transition(snipe, 'UNRESOLVED', result.error || 'Swap outcome unknown');
+    } else if (result.limitBreach) {
+      SnipeStateMachine.transition(snipe, 'LIMIT_BREACHED', result.limitBreach);
+    } else {
+      SnipeStateMachine.transition(snipe, 'FAILED', result.error || 'Execution failed');
+    }
+  }
+
+  /**
+   * Append a result to a snipe's history, dropping the oldest entries past the limit
+   */
+  private appendHistory(
+    snipe: Snipe,
+    type: SnipeHistoryEntry['type'],
+    network: SnipeHistoryEntry['network'],
+    result: SnipeResult
+  ): void {
+    const entry: SnipeHistoryEntry = {
+      type,
+      network,
+      success: result.success,
+      simulated: result.simulated,
+      cancelled: result.cancelled,
+      recovered: result.recovered,
+      skipped: result.skipped,
+      verification: result.verification,
+      poolId: result.poolId,
+      transactionHash: result.transactionHash,
+      tokensReceived: result.tokensReceived,
+      price: result.averagePrice ?? result.actualPrice,
+      attempts: result.attempts,
+      executionTime: result.executionTime,
+      error: result.error,
+      status: snipe.status,
+      timestamp: new Date()
+    };
+
+    snipe.history = [...(snipe.history || []), entry].slice(-ProfileManager.MAX_HISTORY_ENTRIES);
+  }
+
+  /**
+   * Update execution settings on a snipe
+   */
+  public async updateSnipe(
+    profileName: string,
+    snipeId: string,
+    updates: Partial<Pick<
+      Snipe,
+      'priceLimits' | 'tranches' | 'slippageSchedule' | 'exitRules' | 'priority' | 'executeAt' | 'preFireOffsetMs'
+      | 'bondingTrigger' | 'targetPoolId' | 'poolData' | 'settingsOverrides'
+    >>
+  ): Promise<Snipe> {
+    const profile = await this.loadProfile(profileName);
+    if (!profile) {
+      throw new Error(`Profile '${profileName}' not found`);
+    }
+
+    const snipe = profile.snipes.find(s => s.id === snipeId);
+    if (!snipe) {
+      throw new Error('Snipe not found');
+    }
+
+    Object.assign(snipe, updates);
+    await this.saveProfile(profile);
+
+    return snipe;
+  }
+
+  /**
+   * Set or clear the price limits for a snipe
+   */
+  public async setSnipePriceLimits(profileName: string, snipeId: string, limits?: PriceLimits): Promise<Snipe> {
+    return this.updateSnipe(profileName, snipeId, { priceLimits: limits });
+  }
+
+  /**
+   * Set or clear the tranche schedule for a snipe
+   */
+  public async setSnipeTranches(profileName: string, snipeId: string, tranches?: TrancheSchedule): Promise<Snipe> {
+    return this.updateSnipe(profileName, snipeId, { tranches });
+  }
+
+  /**
+   * Set or clear the slippage schedule for a snipe
+   */
+  public async setSnipeSlippageSchedule(profileName: string, snipeId: string, slippageSchedule?: SlippageSchedule): Promise<Snipe> {
+    return this.updateSnipe(profileName, snipeId, { slippageSchedule });
+  }
+
+  /**
+   * Set or clear the settings a snipe overrides from its profile
+   */
+  public async setSnipeSettingsOverrides(profileName: string, snipeId: string, overrides?: SnipeSettingsOverrides): Promise<Snipe> {
+    return this.updateSnipe(profileName, snipeId, { settingsOverrides: overrides });
+  }
+
+  /**
+   * Set or clear the exit rules for a snipe
+   */
+  public async setSnipeExitRules(profileName: string, snipeId: string, exitRules?: ExitRules): Promise<Snipe> {
+    // Exits sell from a single wallet, a fan-out fill is spread over several
+    const snipe = exitRules && (await this.loadProfile(profileName))?.snipes.find(s => s.id === snipeId);
+    if (snipe && SnipeWallets.isFanOut(snipe)) {
+      throw new Error('Exit rules are not supported on snipes split across several wallets');
+    }
+
+    return this.updateSnipe(profileName, snipeId, { exitRules });
+  }
+
+  /**
+   * Set the launch priority for a snipe
+   */
+  public async setSnipePriority(profileName: string, snipeId: string, priority: number): Promise<Snipe> {
+    return this.updateSnipe(profileName, snipeId, { priority });
+  }
+
+  /**
+   * Set or clear the bonding curve trigger for a snipe
+   */
+  public async setSnipeBondingTrigger(profileName: string, snipeId: string, trigger?: BondingTrigger): Promise<Snipe> {
+    return this.updateSnipe(profileName, snipeId, { bondingTrigger: trigger });
+  }
+
+  /**
+   * Point a snipe at the pool it should buy from
+   */
+  public async setSnipeTargetPool(profileName: string, snipeId: string, poolId: string, poolData?: PoolData): Promise<Snipe> {
+    return this.updateSnipe(profileName, snipeId, poolData ? { targetPoolId: poolId, poolData } : { targetPoolId: poolId });
+  }
+
+  /**
+   * Set or clear the launch time for a snipe
+   */
+  public async setSnipeSchedule(profileName: string, snipeId: string, executeAt?: Date, preFireOffsetMs?: number): Promise<Snipe> {
+    return this.updateSnipe(profileName, snipeId, {
+      executeAt,
+      preFireOffsetMs: executeAt ? preFireOffsetMs : undefined
+    });
+  }
+
+  /**
+   * Add fan-out wallets to a snipe, wallets are never removed since they may hold funds
+   */
+  public async addSnipeWallets(profileName: string, snipeId: string, wallets: SnipeWallet[]): Promise<Snipe> {
+    const profile = await this.loadProfile(profileName);
+    if (!profile) {
+      throw new Error(`Profile '${profileName}' not found`);
+    }
+
+    const snipe = profile.snipes.find(s => s.id === snipeId);
+    if (!snipe) {
+      throw new Error('Snipe not found');
+    }
+
+    if (snipe.exitRules && wallets.length > 0) {
+      throw new Error('Snipes with exit rules cannot be split across several wallets, clear the exit rules first');
+    }
+
+    snipe.fanOutWallets = [...(snipe.fanOutWallets || []), ...wallets];
+    await this.saveProfile(profile);
+
+    return snipe;
+  }
+
   /**
    * Acquire lock for a profile
    */
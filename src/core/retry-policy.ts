@@ -0,0 +1,189 @@
+import { ErrorClass } from '../types/profile';
+import { APIError, NetworkError } from '../types/api';
+
+export type BackoffStrategyName = 'EXPONENTIAL' | 'CONSTANT' | 'DECORRELATED_JITTER';
+
+/**
+ * Compute the wait before the next attempt from the attempt number and the previous wait
+ */
+export type BackoffStrategy = (attempt: number, previousDelay: number, baseDelay: number, maxDelay: number) => number;
+
+export interface RetryPolicyOptions {
+  maxRetries: number;
+  baseDelay: number;
+  maxDelay: number;
+  backoff?: BackoffStrategyName | BackoffStrategy;
+}
+
+export interface ErrorClassification {
+  errorClass: ErrorClass;
+  reason: string;
+  retryAfterMs?: number; // Server-requested delay for rate limits
+}
+
+export const BACKOFF_STRATEGIES: Record<BackoffStrategyName, BackoffStrategy> = {
+  EXPONENTIAL: (attempt, _previousDelay, baseDelay, maxDelay) =>
+    Math.min(baseDelay * Math.pow(2, attempt - 1), maxDelay),
+
+  CONSTANT: (_attempt, _previousDelay, baseDelay) => baseDelay,
+
+  // Spreads retries of concurrent snipes apart: random between base and 3x the previous wait
+  DECORRELATED_JITTER: (_attempt, previousDelay, baseDelay, maxDelay) => {
+    const upper = Math.max(previousDelay, baseDelay) * 3;
+    return Math.min(maxDelay, Math.floor(baseDelay + Math.random() * (upper - baseDelay)));
+  }
+};
+
+// Messages that will fail the same way no matter how often they are retried
+const FATAL_PATTERNS: Array<{ pattern: RegExp; reason: string }> = [
+  { pattern: /insufficient (balance|funds)/i, reason: 'insufficient balance' },
+  { pattern: /invalid (pool|asset|token|amount)/i, reason: 'invalid swap parameters' },
+  { pattern: /pool .* not found/i, reason: 'pool does not exist' },
+  { pattern: /(decrypt|mnemonic)/i, reason: 'wallet cannot be restored' }
+];
+
+// The fields of a NetworkError or APIError that classification reads
+type StructuredError = Partial<Pick<NetworkError, 'type' | 'retryAfter'> & Pick<APIError, 'code' | 'message'>>;
+
+const RETRYABLE_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'ECONNABORTED'];
+
+export class RetryPolicy {
+  private options: RetryPolicyOptions;
+  private backoff: BackoffStrategy;
+
+  constructor(options: RetryPolicyOptions) {
+    this.options = options;
+    this.backoff = typeof options.backoff === 'function'
+      ? options.backoff
+      : BACKOFF_STRATEGIES[options.backoff || 'EXPONENTIAL'];
+  }
+
+  /**
+   * Classify an error as retryable, rate limited or fatal
+   */
+  public classify(error: unknown): ErrorClassification {
+    const message = error instanceof Error ? error.message : String(error);
+
+    // FlashNetClient wraps NetworkError and APIError objects as JSON messages
+    const structured = this.parseStructuredError(message);
+    if (structured) {
+      if (structured.type === 'RATE_LIMITED') {
+        return {
+          errorClass: 'RATE_LIMITED',
+          reason: 'rate limited by server',
+          retryAfterMs: structured.retryAfter !== undefined ? structured.retryAfter * 1000 : undefined
+        };
+      }
+
+      if (structured.type) {
+        return { errorClass: 'RETRYABLE', reason: `network ${structured.type.toLowerCase()}` };
+      }
+
+      if (structured.code) {
+        return this.classifyStatus(parseInt(structured.code, 10), structured.message || message);
+      }
+    }
+
+    // SDK and axios errors carry a status or a system error code
+    const details = error as { status?: number; statusCode?: number; code?: string; response?: { status?: number } };
+    const status = details?.response?.status ?? details?.status ?? details?.statusCode;
+    if (typeof status === 'number') {
+      return this.classifyStatus(status, message);
+    }
+
+    if (details?.code && RETRYABLE_CODES.includes(details.code)) {
+      return { errorClass: 'RETRYABLE', reason: `connection ${details.code}` };
+    }
+
+    const fatal = FATAL_PATTERNS.find(({ pattern }) => pattern.test(message));
+    if (fatal) {
+      return { errorClass: 'FATAL', reason: fatal.reason };
+    }
+
+    // Unknown errors keep the old behaviour of being retried
+    return { errorClass: 'RETRYABLE', reason: 'unclassified error' };
+  }
+
+  /**
+   * Check whether another attempt should be made
+   */
+  public shouldRetry(attempt: number, classification: ErrorClassification): boolean {
+    return classification.errorClass !== 'FATAL' && attempt < this.options.maxRetries;
+  }
+
+  /**
+   * Get the wait before the next attempt, honouring server-requested delays
+   */
+  public getDelay(attempt: number, previousDelay: number, classification: ErrorClassification): number {
+    if (classification.errorClass === 'RATE_LIMITED' && classification.retryAfterMs !== undefined) {
+      return classification.retryAfterMs;
+    }
+
+    return this.backoff(attempt, previousDelay, this.options.baseDelay, this.options.maxDelay);
+  }
+
+  /**
+   * Get the configured attempt limit
+   */
+  public getMaxRetries(): number {
+    return this.options.maxRetries;
+  }
+
+  /**
+   * Classify an HTTP status code
+   */
+  private classifyStatus(status: number, message: string): ErrorClassification {
+    if (status === 429) {
+      return { errorClass: 'RATE_LIMITED', reason: 'rate limited by server' };
+    }
+
+    if (status >= 500 || status === 408) {
+      return { errorClass: 'RETRYABLE', reason: `server error ${status}` };
+    }
+
+    if (status >= 400) {
+      const fatal = FATAL_PATTERNS.find(({ pattern }) => pattern.test(message));
+      return { errorClass: 'FATAL', reason: fatal ? fatal.reason : `request rejected with ${status}` };
+    }
+
+    return { errorClass: 'RETRYABLE', reason: `unexpected status ${status}` };
+  }
+
+  /**
+   * Parse the JSON payload FlashNetClient puts into error messages
+   */
+  private parseStructuredError(message: string): StructuredError | null {
+    if (!message.startsWith('{')) {
+      return null;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(message);
+    } catch {
+      return null;
+    }
+
+    if (typeof parsed !== 'object' || parsed === null) {
+      return null;
+    }
+
+    // Keep only fields of the expected type, the payload is not trusted
+    const fields = parsed as Record<string, unknown>;
+    const structured: StructuredError = {};
+    if (typeof fields.type === 'string') {
+      structured.type = fields.type as NetworkError['type'];
+    }
+    if (typeof fields.retryAfter === 'number' && !isNaN(fields.retryAfter)) {
+      structured.retryAfter = fields.retryAfter;
+    }
+    if (typeof fields.code === 'string' || typeof fields.code === 'number') {
+      structured.code = String(fields.code);
+    }
+    if (typeof fields.message === 'string') {
+      structured.message = fields.message;
+    }
+
+    return structured;
+  }
+}
@@ -0,0 +1,294 @@
+import { EventEmitter } from 'events';
+import { FlashNetClient } from '../services/flashnet-client';
+import { ClockSync, ClockSyncResult } from './clock-sync';
+import { Snipe } from '../types/profile';
+import chalk from 'chalk';
+
+export interface ScheduledArmEvent {
+  snipeIds: string[];
+  executeAt: Date;
+  clockOffsetMs: number;
+  timestamp: Date;
+}
+
+export interface ScheduledFireEvent {
+  snipeIds: string[];
+  executeAt: Date;            // Announced launch time, in server time
+  firedAt: Date;              // Server time the snipes were released
+  driftMs: number;            // How late the release was against its target
+  clockOffsetMs: number;
+  timestamp: Date;
+}
+
+export interface ScheduledLaunch {
+  snipeIds: string[];
+  executeAt: Date;
+  fireAt: Date;               // executeAt less the pre-fire offset
+}
+
+export interface SnipeSchedulerOptions {
+  armLeadMs?: number;         // How long before firing wallets are re-armed
+  spinWindowMs?: number;      // Final stretch covered by yielding instead of a timer
+  syncSamples?: number;       // Server time samples per clock sync
+}
+
+interface ScheduleEntry {
+  snipeIds: string[];
+  armSnipeIds: string[];      // Snipes whose wallets are still re-armed before launch
+  executeAt: number;          // Server epoch milliseconds
+  fireAt: number;
+  armTimer?: NodeJS.Timeout;
+  fireTimer?: NodeJS.Timeout;
+}
+
+export class SnipeScheduler extends EventEmitter {
+  // Node timers overflow past ~24.8 days, long waits are re-armed in steps
+  private static readonly MAX_TIMER_MS = 60 * 60 * 1000;
+
+  private flashnetClient: FlashNetClient;
+  private clockSync: ClockSync;
+  private armLeadMs: number;
+  private spinWindowMs: number;
+  private syncSamples: number;
+  private entries: Map<number, ScheduleEntry> = new Map();
+  private isRunning = false;
+
+  constructor(options: SnipeSchedulerOptions = {}) {
+    super();
+
+    this.flashnetClient = new FlashNetClient();
+    this.clockSync = new ClockSync(this.flashnetClient);
+    this.armLeadMs = options.armLeadMs ?? 3 * 60 * 1000;
+    this.spinWindowMs = options.spinWindowMs ?? 25;
+    this.syncSamples = options.syncSamples || 5;
+  }
+
+  /**
+   * Get the instant a scheduled snipe should be released, in server time
+   */
+  public static getFireTime(snipe: Snipe): number | undefined {
+    if (!snipe.executeAt) {
+      return undefined;
+    }
+
+    return new Date(snipe.executeAt).getTime() - (snipe.preFireOffsetMs || 0);
+  }
+
+  /**
+   * Sync the clock and schedule every snipe that carries an executeAt
+   */
+  public async start(snipes: Snipe[], network: 'MAINNET' | 'REGTEST' = 'MAINNET'): Promise<ClockSyncResult | undefined> {
+    this.stop();
+    this.isRunning = true;
+    this.flashnetClient.switchNetwork(network);
+
+    const sync = await this.syncClock();
+
+    // Snipes released at the same instant fire as one batch
+    for (const snipe of snipes) {
+      const fireAt = SnipeScheduler.getFireTime(snipe);
+      if (fireAt === undefined) {
+        continue;
+      }
+
+      const entry = this.entries.get(fireAt) || {
+        snipeIds: [],
+        armSnipeIds: [],
+        executeAt: new Date(snipe.executeAt!).getTime(),
+        fireAt
+      };
+      entry.snipeIds.push(snipe.id);
+      entry.armSnipeIds.push(snipe.id);
+      this.entries.set(fireAt, entry);
+    }
+
+    for (const entry of this.entries.values()) {
+      this.scheduleEntry(entry);
+    }
+
+    if (this.entries.size > 0) {
+      console.log(`⏰ Scheduled ${this.entries.size} launches (clock offset ${this.clockSync.getOffset()}ms)`);
+    }
+
+    this.emit('scheduler:started', { launches: this.getScheduled(), sync, timestamp: new Date() });
+    return sync;
+  }
+
+  /**
+   * Cancel all pending launches
+   */
+  public stop(): void {
+    for (const entry of this.entries.values()) {
+      clearTimeout(entry.armTimer);
+      clearTimeout(entry.fireTimer);
+    }
+
+    this.entries.clear();
+
+    if (this.isRunning) {
+      this.isRunning = false;
+      this.emit('scheduler:stopped', { timestamp: new Date() });
+    }
+  }
+
+  /**
+   * Stop re-arming the wallets of snipes that already started executing
+   */
+  public cancelArming(snipeIds: string[]): void {
+    for (const entry of this.entries.values()) {
+      entry.armSnipeIds = entry.armSnipeIds.filter(id => !snipeIds.includes(id));
+      if (entry.armSnipeIds.length === 0) {
+        clearTimeout(entry.armTimer);
+        entry.armTimer = undefined;
+      }
+    }
+  }
+
+  /**
+   * Get pending launches, soonest first
+   */
+  public getScheduled(): ScheduledLaunch[] {
+    return Array.from(this.entries.values())
+      .sort((a, b) => a.fireAt - b.fireAt)
+      .map(entry => ({
+        snipeIds: [...entry.snipeIds],
+        executeAt: new Date(entry.executeAt),
+        fireAt: new Date(entry.fireAt)
+      }));
+  }
+
+  /**
+   * Check if any launch is pending
+   */
+  public hasPendingLaunches(): boolean {
+    return this.entries.size > 0;
+  }
+
+  /**
+   * Get the last clock sync result
+   */
+  public getClockSync(): ClockSyncResult | undefined {
+    return this.clockSync.getLastSync();
+  }
+
+  /**
+   * Sync against the server, falling back to the local clock when it cannot be reached
+   */
+  private async syncClock(): Promise<ClockSyncResult | undefined> {
+    try {
+      const result = await this.clockSync.sync(this.syncSamples);
+      if (Math.abs(result.offsetMs) > 1000) {
+        console.log(chalk.yellow(`⏰ Local clock is ${result.offsetMs}ms off server time, correcting`));
+      }
+      return result;
+    } catch (error) {
+      console.log(chalk.yellow(`⚠️  ${error instanceof Error ? error.message : 'Clock sync failed'}, keeping previous offset`));
+      return undefined;
+    }
+  }
+
+  /**
+   * Set the arm and fire timers of a launch
+   */
+  private scheduleEntry(entry: ScheduleEntry): void {
+    const armAt = entry.fireAt - this.armLeadMs;
+
+    if (armAt > this.clockSync.now()) {
+      this.wakeAt(entry, 'armTimer', armAt, () => this.armEntry(entry));
+    } else {
+      void this.armEntry(entry);
+    }
+
+    this.scheduleFire(entry);
+  }
+
+  /**
+   * Re-sync the clock close to launch and ask for the wallets to be re-armed
+   */
+  private async armEntry(entry: ScheduleEntry): Promise<void> {
+    await this.syncClock();
+
+    if (!this.isRunning || this.entries.get(entry.fireAt) !== entry) {
+      return;
+    }
+
+    if (entry.armSnipeIds.length > 0) {
+      const event: ScheduledArmEvent = {
+        snipeIds: [...entry.armSnipeIds],
+        executeAt: new Date(entry.executeAt),
+        clockOffsetMs: this.clockSync.getOffset(),
+        timestamp: new Date()
+      };
+
+      this.emit('schedule:arm', event);
+    }
+
+    // The fire timer was set against the old offset
+    this.scheduleFire(entry);
+  }
+
+  /**
+   * Wake shortly before the launch, leaving the final stretch to the spin
+   */
+  private scheduleFire(entry: ScheduleEntry): void {
+    clearTimeout(entry.fireTimer);
+    this.wakeAt(entry, 'fireTimer', entry.fireAt - this.spinWindowMs, () => this.spinUntilFire(entry));
+  }
+
+  /**
+   * Yield to the event loop until the exact launch instant, then fire
+   */
+  private spinUntilFire(entry: ScheduleEntry): void {
+    if (!this.isRunning || this.entries.get(entry.fireAt) !== entry) {
+      return;
+    }
+
+    const now = this.clockSync.now();
+    if (now < entry.fireAt) {
+      setImmediate(() => this.spinUntilFire(entry));
+      return;
+    }
+
+    this.entries.delete(entry.fireAt);
+    clearTimeout(entry.armTimer);
+
+    const driftMs = now - entry.fireAt;
+    if (driftMs > 1000) {
+      console.log(chalk.yellow(`⏰ Launch for ${entry.snipeIds.length} snipes is ${driftMs}ms past its time, firing now`));
+    }
+
+    const event: ScheduledFireEvent = {
+      snipeIds: entry.snipeIds,
+      executeAt: new Date(entry.executeAt),
+      firedAt: new Date(now),
+      driftMs,
+      clockOffsetMs: this.clockSync.getOffset(),
+      timestamp: new Date()
+    };
+
+    this.emit('schedule:fire', event);
+  }
+
+  /**
+   * Call back at a server time, re-arming in steps for waits longer than a timer allows
+   */
+  private wakeAt(entry: ScheduleEntry, timer: 'armTimer' | 'fireTimer', target: number, callback: () => void): void {
+    const remaining = target - this.clockSync.now();
+
+    entry[timer] = setTimeout(() => {
+      if (remaining > SnipeScheduler.MAX_TIMER_MS) {
+        this.wakeAt(entry, timer, target, callback);
+      } else {
+        callback();
+      }
+    }, Math.min(Math.max(0, remaining), SnipeScheduler.MAX_TIMER_MS));
+  }
+
+  /**
+   * Cleanup resources
+   */
+  public destroy(): void {
+    this.stop();
+    this.removeAllListeners();
+  }
+}
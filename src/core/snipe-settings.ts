@@ -0,0 +1,112 @@
+import { ProfileSettings, Snipe, SnipeSettingsOverrides } from '../types/profile';
+import { config } from '../utils/config';
+
+export type SettingSource = 'CONFIG' | 'PROFILE' | 'SNIPE';
+
+export interface EffectiveSettings {
+  maxRetries: number;
+  retryDelay: number;              // Initial retry delay in ms
+  slippageTolerance: number;       // Percent
+  network: 'MAINNET' | 'REGTEST';
+}
+
+export interface ResolvedSettings extends EffectiveSettings {
+  sources: Record<keyof EffectiveSettings, SettingSource>;
+}
+
+const SETTING_KEYS: Array<keyof EffectiveSettings> = ['maxRetries', 'retryDelay', 'slippageTolerance', 'network'];
+
+/**
+ * Resolves the settings a snipe runs with: global config, then profile settings, then the snipe's own overrides
+ */
+export class SnipeSettings {
+  /**
+   * Get the global defaults from config
+   */
+  public static fromConfig(): EffectiveSettings {
+    return {
+      maxRetries: config.get('maxRetryAttempts'),
+      retryDelay: config.get('initialRetryDelay'),
+      slippageTolerance: config.get('defaultSlippageTolerance'),
+      network: config.get('defaultNetwork')
+    };
+  }
+
+  /**
+   * Layer profile settings and snipe overrides over the base settings
+   */
+  public static resolve(
+    profileSettings?: Partial<ProfileSettings>,
+    snipe?: Snipe,
+    base: EffectiveSettings = this.fromConfig()
+  ): ResolvedSettings {
+    const resolved = { ...base, sources: {} } as ResolvedSettings;
+    const layers: Array<[SettingSource, Partial<EffectiveSettings> | undefined]> = [
+      ['PROFILE', profileSettings],
+      ['SNIPE', snipe?.settingsOverrides]
+    ];
+
+    for (const key of SETTING_KEYS) {
+      this.resolveSetting(resolved, key, layers);
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Take one setting from the last layer that sets it, keeping the base value otherwise
+   */
+  private static resolveSetting<K extends keyof EffectiveSettings>(
+    resolved: ResolvedSettings,
+    key: K,
+    layers: Array<[SettingSource, Partial<EffectiveSettings> | undefined]>
+  ): void {
+    const settings: EffectiveSettings = resolved;
+    resolved.sources[key] = 'CONFIG';
+    for (const [source, layer] of layers) {
+      const value: EffectiveSettings[K] | undefined = layer?.[key];
+      if (value !== undefined && value !== null) {
+        settings[key] = value;
+        resolved.sources[key] = source;
+      }
+    }
+  }
+
+  /**
+   * Validate snipe overrides, returning the first problem found
+   */
+  public static validateOverrides(overrides: SnipeSettingsOverrides): string | null {
+    if (overrides.maxRetries !== undefined && (!Number.isInteger(overrides.maxRetries) || overrides.maxRetries < 1 || overrides.maxRetries > 100)) {
+      return 'Max retries must be a whole number between 1 and 100';
+    }
+
+    if (overrides.retryDelay !== undefined && (overrides.retryDelay < 100 || overrides.retryDelay > 10000)) {
+      return 'Retry delay must be between 100ms and 10000ms';
+    }
+
+    if (overrides.slippageTolerance !== undefined && (overrides.slippageTolerance <= 0 || overrides.slippageTolerance > 50)) {
+      return 'Slippage tolerance must be above 0% and at most 50%';
+    }
+
+    if (overrides.network !== undefined && overrides.network !== 'MAINNET' && overrides.network !== 'REGTEST') {
+      return 'Network must be MAINNET or REGTEST';
+    }
+
+    return null;
+  }
+
+  /**
+   * Describe settings with where each value came from
+   */
+  public static describe(settings: ResolvedSettings): string[] {
+    const tag = (key: keyof EffectiveSettings): string =>
+      settings.sources[key] === 'CONFIG' ? '' : ` (${settings.sources[key].toLowerCase()})`;
+
+    return [
+      `Retries: ${settings.maxRetries}${tag('maxRetries')}`,
+      `Retry delay: ${settings.retryDelay}ms${tag('retryDelay')}`,
+      `Slippage: ${settings.slippageTolerance}%${tag('slippageTolerance')}`,
+      `Network: ${settings.network}${tag('network')}`
+    ];
+  }
+}
@@ -0,0 +1,125 @@
+import { Snipe, SnipeStatus, StatusTransition } from '../types/profile';
+
+export class SnipeTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SnipeTransitionError';
+  }
+}
+
+/**
+ * Guards every change to Snipe.status and records it on the snipe
+ */
+export class SnipeStateMachine {
+  private static readonly MAX_TRANSITIONS = 100;
+
+  private static readonly TRANSITIONS: Record<SnipeStatus, SnipeStatus[]> = {
+    CREATED: ['VALIDATED'],
+    VALIDATED: ['TESTED'],      // Only a passing regtest rehearsal leads towards READY
+    TESTED: ['READY'],
+    READY: ['EXECUTING'],
+    EXECUTING: ['RETRYING', 'SUCCESS', 'FAILED', 'LIMIT_BREACHED', 'UNRESOLVED', 'READY'],
+    RETRYING: ['EXECUTING', 'SUCCESS', 'FAILED', 'LIMIT_BREACHED', 'UNRESOLVED', 'READY'],
+    SUCCESS: [],                 // Only an explicit reset makes a filled snipe buy again
+    FAILED: ['READY'],
+    LIMIT_BREACHED: ['READY'],
+    UNRESOLVED: ['SUCCESS', 'FAILED'] // Only reconciling the journal settles a swap that may have filled
+  };
+
+  // Statuses that are meaningless without a wallet to trade from
+  private static readonly WALLET_REQUIRED: SnipeStatus[] = ['VALIDATED', 'TESTED', 'READY', 'EXECUTING', 'RETRYING'];
+
+  /**
+   * Check if a snipe may move from one status to another, staying put is not a move
+   */
+  public static canTransition(from: SnipeStatus, to: SnipeStatus): boolean {
+    return this.TRANSITIONS[from].includes(to);
+  }
+
+  /**
+   * Check if a snipe has a wallet to trade from
+   */
+  public static hasWallet(snipe: Snipe): boolean {
+    return !!snipe.walletAddress && !!snipe.encryptedMnemonic;
+  }
+
+  /**
+   * Move a snipe to a new status, rejecting illegal transitions
+   */
+  public static transition(snipe: Snipe, to: SnipeStatus, reason: string): void {
+    const from = snipe.status;
+
+    if (!this.canTransition(from, to)) {
+      throw new SnipeTransitionError(`Snipe ${snipe.id} cannot move from ${from} to ${to}`);
+    }
+
+    if (this.WALLET_REQUIRED.includes(to) && !this.hasWallet(snipe)) {
+      throw new SnipeTransitionError(`Snipe ${snipe.id} cannot move to ${to} without a wallet`);
+    }
+
+    this.record(snipe, from, to, reason);
+  }
+
+  /**
+   * Move a snipe only if the transition is legal, returning whether it moved
+   */
+  public static tryTransition(snipe: Snipe, to: SnipeStatus, reason: string): boolean {
+    try {
+      this.transition(snipe, to, reason);
+      return true;
+    } catch (error) {
+      if (error instanceof SnipeTransitionError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a snipe SUCCESS from whatever status it holds, once the journal proves it bought
+   */
+  public static recordFill(snipe: Snipe, reason: string): void {
+    if (snipe.status !== 'SUCCESS') {
+      this.record(snipe, snipe.status, 'SUCCESS', reason);
+    }
+  }
+
+  /**
+   * Explicitly reset a snipe so it can be tested and executed again
+   */
+  public static reset(snipe: Snipe, reason: string): void {
+    const to: SnipeStatus = this.hasWallet(snipe) ? 'VALIDATED' : 'CREATED';
+    if (snipe.status !== to) {
+      this.record(snipe, snipe.status, to, `Reset: ${reason}`);
+    }
+  }
+
+  /**
+   * Throw unless the snipe may start executing
+   */
+  public static assertExecutable(snipe: Snipe): void {
+    if (!this.hasWallet(snipe)) {
+      throw new SnipeTransitionError(`Snipe ${snipe.id} has no wallet`);
+    }
+
+    if (!this.canTransition(snipe.status, 'EXECUTING')) {
+      const hints: Partial<Record<SnipeStatus, string>> = {
+        SUCCESS: ', reset it to buy again',
+        VALIDATED: ', rehearse it on regtest first',
+        UNRESOLVED: ', its last swap must be reconciled first'
+      };
+      const hint = hints[snipe.status] || '';
+      throw new SnipeTransitionError(`Snipe ${snipe.id} cannot execute from ${snipe.status}${hint}`);
+    }
+  }
+
+  /**
+   * Apply and record a status change
+   */
+  private static record(snipe: Snipe, from: SnipeStatus, to: SnipeStatus, reason: string): void {
+    const transition: StatusTransition = { from, to, reason, timestamp: new Date() };
+
+    snipe.status = to;
+    snipe.statusHistory = [...(snipe.statusHistory || []), transition].slice(-this.MAX_TRANSITIONS);
+  }
+}
@@ -0,0 +1,52 @@
+import { Snipe, SnipeWallet } from '../types/profile';
+
+/**
+ * Resolves the wallets a snipe trades from, its primary wallet first
+ */
+export class SnipeWallets {
+  public static readonly MAX_WALLETS = 10;
+
+  /**
+   * Get every wallet of a snipe, the primary wallet first
+   */
+  public static list(snipe: Snipe): SnipeWallet[] {
+    const primary: SnipeWallet = {
+      address: snipe.walletAddress,
+      bitcoinAddress: snipe.bitcoinAddress,
+      encryptedMnemonic: snipe.encryptedMnemonic
+    };
+
+    return [primary, ...(snipe.fanOutWallets || [])];
+  }
+
+  /**
+   * Get the wallet a snipe was created with
+   */
+  public static primary(snipe: Snipe): SnipeWallet {
+    return this.list(snipe)[0]!;
+  }
+
+  /**
+   * Find a wallet of a snipe by address, the primary wallet when no address is given
+   */
+  public static find(snipe: Snipe, address?: string): SnipeWallet | undefined {
+    return address ? this.list(snipe).find(wallet => wallet.address === address) : this.primary(snipe);
+  }
+
+  /**
+   * Check if a snipe splits its amount across several wallets
+   */
+  public static isFanOut(snipe: Snipe): boolean {
+    return (snipe.fanOutWallets?.length || 0) > 0;
+  }
+
+  /**
+   * Split an amount evenly across wallets, the last one taking the rounding remainder
+   */
+  public static splitAmount(amountSats: number, count: number): number[] {
+    const share = Math.floor(amountSats / count);
+    return Array.from({ length: count }, (_, index) =>
+      index === count - 1 ? amountSats - share * index : share
+    );
+  }
+}
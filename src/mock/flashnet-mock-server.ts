@@ -0,0 +1,491 @@
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import crypto from 'crypto';
+import {
+  APIError,
+  FlashNetAuthChallengeRequest,
+  FlashNetAuthChallengeResponse,
+  FlashNetAuthVerifyRequest,
+  FlashNetAuthVerifyResponse,
+  FlashNetPingResponse,
+  FlashNetPoolResponse,
+  FlashNetPoolsResponse,
+  FlashNetSwapRequest,
+  FlashNetSwapResponse,
+  FlashNetSwapSimulateRequest,
+  FlashNetSwapSimulateResponse
+} from '../types/api';
+import { QuoteEngine } from '../utils/quote-engine';
+import { MockNetwork, MockPoolScript, MockScenario, MockWindow } from './scenarios';
+import chalk from 'chalk';
+
+export interface MockServerOptions {
+  port?: number;                 // 0 picks a free port
+  quiet?: boolean;               // Skip the per-request log
+}
+
+interface MockPool {
+  script: MockPoolScript;
+  lpPublicKey: string;
+  tokenReserve: number;
+  btcReserve: number;
+  swapCount: number;
+  lastTradeAt?: string;
+  updatedAt: string;
+}
+
+interface MockRequest {
+  method: string;
+  network: MockNetwork;
+  route: string;                 // Route pattern, e.g. '/pools/:id'
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: any;
+  headers: IncomingMessage['headers'];
+}
+
+class MockHttpError extends Error {
+  constructor(public status: number, public code: string, message: string) {
+    super(message);
+    this.name = 'MockHttpError';
+  }
+}
+
+/**
+ * Local stand-in for the FlashNet HTTP API, serving mainnet under /mainnet and regtest
+ * under /regtest, with outages, rate limits, latency and pool launches on a script
+ */
+export class FlashNetMockServer {
+  private scenario: MockScenario;
+  private port: number;
+  private quiet: boolean;
+  private server?: http.Server;
+  private startedAt = 0;
+  private pools: Map<string, MockPool> = new Map();
+  private challenges: Map<string, string> = new Map();    // requestId → publicKey
+  private accessTokens: Set<string> = new Set();
+  private rateLimitCounts: Map<number, number> = new Map();
+
+  constructor(scenario: MockScenario, options: MockServerOptions = {}) {
+    this.scenario = scenario;
+    this.port = options.port ?? 4100;
+    this.quiet = options.quiet || false;
+  }
+
+  /**
+   * Start listening, resetting the scenario clock and pool state
+   */
+  public async start(): Promise<number> {
+    if (this.server) {
+      throw new Error('Mock server already started');
+    }
+
+    this.startedAt = Date.now();
+    this.pools.clear();
+    this.challenges.clear();
+    this.accessTokens.clear();
+    this.rateLimitCounts.clear();
+
+    for (const script of this.scenario.pools || []) {
+      const lpPublicKey = FlashNetMockServer.getPoolId(script);
+      this.pools.set(lpPublicKey, {
+        script,
+        lpPublicKey,
+        tokenReserve: script.tokenReserve,
+        btcReserve: script.btcReserve,
+        swapCount: 0,
+        updatedAt: this.getListedAt(script)
+      });
+    }
+
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        this.sendError(res, 500, 'INTERNAL', error instanceof Error ? error.message : 'Unknown error');
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, () => resolve());
+    });
+
+    this.server = server;
+    return (server.address() as AddressInfo).port;
+  }
+
+  /**
+   * Stop listening
+   */
+  public async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = undefined;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  /**
+   * Get milliseconds since the scenario started
+   */
+  public getElapsedMs(): number {
+    return Date.now() - this.startedAt;
+  }
+
+  /**
+   * Get the LP public key the mock gives a pool
+   */
+  public static getPoolId(script: MockPoolScript): string {
+    const network = script.network || 'ANY';
+    return '02' + crypto.createHash('sha256').update(`mock-pool:${network}:${script.tokenAddress}`).digest('hex');
+  }
+
+  /**
+   * Run one request through the scenario, then the route
+   */
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const startTime = Date.now();
+    const request = await this.parseRequest(req);
+
+    res.on('finish', () => {
+      if (!this.quiet) {
+        const status = res.statusCode;
+        const color = status >= 500 ? chalk.red : status >= 400 ? chalk.yellow : chalk.gray;
+        console.log(color(`   T+${(this.getElapsedMs() / 1000).toFixed(1)}s ${request.network} ${request.method} ${req.url} → ${status} (${Date.now() - startTime}ms)`));
+      }
+    });
+
+    const delayMs = (this.scenario.latency || [])
+      .filter(window => this.isActive(window, request))
+      .reduce((total, window) => total + window.delayMs, 0);
+    if (delayMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+
+    const outage = (this.scenario.outages || []).find(window => this.isActive(window, request));
+    if (outage) {
+      this.sendError(res, outage.status || 503, 'SERVICE_UNAVAILABLE', `FlashNet ${request.network} is offline`);
+      return;
+    }
+
+    const rateLimits = this.scenario.rateLimits || [];
+    for (const [index, window] of rateLimits.entries()) {
+      if (!this.isActive(window, request)) {
+        continue;
+      }
+
+      const count = (this.rateLimitCounts.get(index) || 0) + 1;
+      this.rateLimitCounts.set(index, count);
+      if (!window.allowEvery || count % window.allowEvery !== 0) {
+        res.setHeader('Retry-After', String(window.retryAfterSec || 1));
+        this.sendError(res, 429, 'RATE_LIMITED', 'Too many requests');
+        return;
+      }
+    }
+
+    try {
+      this.sendJson(res, 200, this.route(request));
+    } catch (error) {
+      if (error instanceof MockHttpError) {
+        this.sendError(res, error.status, error.code, error.message);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Dispatch a request to its route
+   */
+  private route(request: MockRequest): unknown {
+    switch (`${request.method} ${request.route}`) {
+      case 'GET /ping':
+        return this.ping(request);
+      case 'GET /pools':
+        return this.listPools(request);
+      case 'GET /pools/:id':
+        return this.toPoolResponse(this.getListedPool(request, request.params.id || ''));
+      case 'POST /auth/challenge':
+        return this.createChallenge(request.body as FlashNetAuthChallengeRequest);
+      case 'POST /auth/verify':
+        return this.verifyChallenge(request.body as FlashNetAuthVerifyRequest);
+      case 'POST /swap/simulate':
+        return this.simulateSwap(request, request.body as FlashNetSwapSimulateRequest);
+      case 'POST /swap':
+        return this.executeSwap(request, request.body as FlashNetSwapRequest);
+      default:
+        throw new MockHttpError(404, 'NOT_FOUND', `No route for ${request.method} ${request.route}`);
+    }
+  }
+
+  /**
+   * Answer a health check
+   */
+  private ping(request: MockRequest): FlashNetPingResponse {
+    return {
+      status: 'ok',
+      timestamp: new Date().toISOString(),
+      network: request.network
+    };
+  }
+
+  /**
+   * List pools with the filters, sorting and paging of the real API
+   */
+  private listPools(request: MockRequest): FlashNetPoolsResponse {
+    const { query } = request;
+    const limit = parseInt(query.get('limit') || '100');
+    const offset = parseInt(query.get('offset') || '0');
+    const afterUpdatedAt = query.get('afterUpdatedAt');
+    const assetAAddress = query.get('assetAAddress')?.toLowerCase();
+    const status = query.get('status');
+    const isGraduated = query.get('isGraduated');
+
+    const pools = this.getListedPools(request.network)
+      .map(pool => this.toPoolResponse(pool))
+      .filter(pool =>
+        (!afterUpdatedAt || pool.updatedAt > afterUpdatedAt) &&
+        (!assetAAddress || pool.assetAAddress.toLowerCase() === assetAAddress) &&
+        (!status || pool.status === status) &&
+        (isGraduated === null || String(pool.isGraduated) === isGraduated)
+      )
+      .sort((a, b) => query.get('sort') === 'CREATED_AT_ASC'
+        ? a.createdAt.localeCompare(b.createdAt)
+        : b.createdAt.localeCompare(a.createdAt));
+
+    return {
+      pools: pools.slice(offset, offset + limit),
+      total: pools.length,
+      limit,
+      offset
+    };
+  }
+
+  /**
+   * Issue an auth challenge for a public key
+   */
+  private createChallenge(body: FlashNetAuthChallengeRequest): FlashNetAuthChallengeResponse {
+    if (!body?.publicKey) {
+      throw new MockHttpError(400, 'INVALID_REQUEST', 'publicKey is required');
+    }
+
+    const requestId = crypto.randomUUID();
+    this.challenges.set(requestId, body.publicKey);
+
+    return { challenge: crypto.randomBytes(32).toString('hex'), requestId };
+  }
+
+  /**
+   * Trade a challenge for an access token, without checking the signature
+   */
+  private verifyChallenge(body: FlashNetAuthVerifyRequest): FlashNetAuthVerifyResponse {
+    if (!body?.requestId || this.challenges.get(body.requestId) !== body.publicKey || !body.signature) {
+      throw new MockHttpError(401, 'INVALID_CHALLENGE', 'Unknown challenge or missing signature');
+    }
+
+    this.challenges.delete(body.requestId);
+    const accessToken = `mock.${crypto.randomBytes(24).toString('hex')}`;
+    this.accessTokens.add(accessToken);
+
+    return { accessToken, expiresIn: 3600, tokenType: 'Bearer' };
+  }
+
+  /**
+   * Quote a swap against the current reserves
+   */
+  private simulateSwap(request: MockRequest, body: FlashNetSwapSimulateRequest): FlashNetSwapSimulateResponse {
+    const pool = this.getListedPool(request, body?.poolId || '');
+    const quote = this.quote(pool, body.amountIn, body.isBuy !== false);
+
+    return {
+      amountOut: quote.amountOut.toString(),
+      priceImpact: quote.priceImpactPct,
+      fee: (quote.lpFee + quote.hostFee).toString(),
+      pricePerToken: quote.executionPrice,
+      slippage: quote.priceImpactPct
+    };
+  }
+
+  /**
+   * Buy tokens with BTC, moving the pool's reserves
+   */
+  private executeSwap(request: MockRequest, body: FlashNetSwapRequest): FlashNetSwapResponse {
+    const token = (request.headers.authorization || '').replace(/^Bearer /, '');
+    if (!this.accessTokens.has(token)) {
+      throw new MockHttpError(401, 'UNAUTHORIZED', 'Authentication required');
+    }
+
+    if (body?.deadline && body.deadline * 1000 < Date.now()) {
+      throw new MockHttpError(400, 'DEADLINE_EXPIRED', `Swap deadline ${body.deadline} has passed`);
+    }
+
+    const pool = this.getListedPool(request, body?.poolId || '');
+    const quote = this.quote(pool, body.amountIn, true);
+    if (quote.amountOut < parseFloat(body.minAmountOut || '0')) {
+      throw new MockHttpError(400, 'SLIPPAGE_EXCEEDED', `${quote.amountOut} tokens out is below minimum ${body.minAmountOut}`);
+    }
+
+    // The LP fee stays in the pool, the host fee leaves it
+    pool.btcReserve += quote.amountIn - quote.hostFee;
+    pool.tokenReserve -= quote.amountOut;
+    pool.swapCount++;
+    pool.lastTradeAt = pool.updatedAt = new Date().toISOString();
+
+    return {
+      transactionHash: crypto.createHash('sha256').update(`${pool.lpPublicKey}:${pool.swapCount}:${body.recipient}`).digest('hex'),
+      amountOut: quote.amountOut.toString(),
+      pricePerToken: quote.executionPrice,
+      fee: (quote.lpFee + quote.hostFee).toString(),
+      gasUsed: 0,
+      status: 'confirmed'
+    };
+  }
+
+  /**
+   * Quote a buy or sell of a pool's token
+   */
+  private quote(pool: MockPool, amountIn: string, isBuy: boolean) {
+    const amount = parseFloat(amountIn);
+    if (!(amount > 0)) {
+      throw new MockHttpError(400, 'INVALID_AMOUNT', `Invalid amountIn: ${amountIn}`);
+    }
+
+    const reserves = QuoteEngine.reservesFromPool(this.toPoolResponse(pool), !isBuy);
+    if (!reserves) {
+      throw new MockHttpError(409, 'NO_LIQUIDITY', `Pool ${pool.lpPublicKey} has no liquidity`);
+    }
+
+    return QuoteEngine.quote(reserves, amount);
+  }
+
+  /**
+   * Get pools listed on a network by now
+   */
+  private getListedPools(network: MockNetwork): MockPool[] {
+    const elapsed = this.getElapsedMs();
+    return Array.from(this.pools.values()).filter(pool =>
+      (!pool.script.network || pool.script.network === network) &&
+      (pool.script.appearsAtMs || 0) <= elapsed
+    );
+  }
+
+  /**
+   * Get a listed pool, answering 404 for pools that are not listed yet
+   */
+  private getListedPool(request: MockRequest, poolId: string): MockPool {
+    const pool = this.getListedPools(request.network).find(p => p.lpPublicKey === poolId);
+    if (!pool) {
+      throw new MockHttpError(404, 'POOL_NOT_FOUND', `Pool ${poolId} not found`);
+    }
+    return pool;
+  }
+
+  /**
+   * Convert a mock pool to the API's pool shape
+   */
+  private toPoolResponse(pool: MockPool): FlashNetPoolResponse {
+    const { script } = pool;
+
+    return {
+      lpPublicKey: pool.lpPublicKey,
+      assetAAddress: script.tokenAddress,
+      assetAReserve: pool.tokenReserve.toString(),
+      assetBReserve: pool.btcReserve.toString(),
+      currentPriceAInB: pool.tokenReserve > 0 ? pool.btcReserve / pool.tokenReserve : 0,
+      tokenSymbol: script.tokenSymbol,
+      tokenName: script.tokenName,
+      bondingProgressPercent: script.bondingProgressPct || 0,
+      isGraduated: script.isGraduated || false,
+      createdAt: this.getListedAt(script),
+      updatedAt: pool.updatedAt,
+      lastTradeAt: pool.lastTradeAt,
+      swapCount: pool.swapCount,
+      lpCount: 0,
+      hostName: script.hostName || 'mock',
+      status: 'ACTIVE',
+      lpFeeBps: script.lpFeeBps ?? 30,
+      hostFeeBps: script.hostFeeBps ?? 0
+    };
+  }
+
+  /**
+   * Get when a pool is listed, as an ISO timestamp
+   */
+  private getListedAt(script: MockPoolScript): string {
+    return new Date(this.startedAt + (script.appearsAtMs || 0)).toISOString();
+  }
+
+  /**
+   * Check if a scenario window applies to a request right now
+   */
+  private isActive(window: MockWindow, request: MockRequest): boolean {
+    const elapsed = this.getElapsedMs();
+    return elapsed >= (window.fromMs || 0) &&
+      (window.untilMs === undefined || elapsed < window.untilMs) &&
+      (!window.network || window.network === request.network) &&
+      (!window.routes || window.routes.includes(request.route));
+  }
+
+  /**
+   * Split a request into network, route pattern, parameters and JSON body
+   */
+  private async parseRequest(req: IncomingMessage): Promise<MockRequest> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const segments = url.pathname.split('/').filter(Boolean);
+
+    // Unprefixed paths are served as mainnet
+    let network: MockNetwork = 'MAINNET';
+    if (segments[0] === 'mainnet' || segments[0] === 'regtest') {
+      network = segments.shift() === 'regtest' ? 'REGTEST' : 'MAINNET';
+    }
+    if (segments[0] === 'v1') {
+      segments.shift();
+    }
+
+    const params: Record<string, string> = {};
+    let route = '/' + segments.join('/');
+    if (segments[0] === 'pools' && segments.length === 2) {
+      params.id = segments[1]!;
+      route = '/pools/:id';
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+
+    let body: any;
+    try {
+      body = chunks.length > 0 ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : undefined;
+    } catch {
+      body = undefined;
+    }
+
+    return { method: req.method || 'GET', network, route, params, query: url.searchParams, body, headers: req.headers };
+  }
+
+  /**
+   * Send a JSON response
+   */
+  private sendJson(res: ServerResponse, status: number, data: unknown): void {
+    res.writeHead(status, {
+      'Content-Type': 'application/json',
+      'X-Request-Id': crypto.randomUUID()
+    });
+    res.end(JSON.stringify(data));
+  }
+
+  /**
+   * Send an error in the API's error shape
+   */
+  private sendError(res: ServerResponse, status: number, code: string, message: string): void {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+
+    const error: APIError = { code, message, timestamp: new Date().toISOString() };
+    this.sendJson(res, status, error);
+  }
+}
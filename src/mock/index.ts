@@ -0,0 +1,56 @@
+#!/usr/bin/env node
+
+import { FlashNetMockServer } from './flashnet-mock-server';
+import { MOCK_SCENARIOS, loadMockScenario } from './scenarios';
+import chalk from 'chalk';
+
+/**
+ * Run the local FlashNet stand-in
+ *
+ *   npm run mock:flashnet -- --scenario launch --port 4100
+ */
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const getArg = (name: string): string | undefined => {
+    const index = args.indexOf(`--${name}`);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+
+  if (args.includes('--list')) {
+    console.log(chalk.hex('#00D9FF')('🎭 Built-in scenarios:'));
+    Object.values(MOCK_SCENARIOS).forEach(scenario => {
+      console.log(`   ${chalk.cyan(scenario.name.padEnd(22))} ${chalk.gray(scenario.description || '')}`);
+    });
+    return;
+  }
+
+  const scenario = loadMockScenario(getArg('scenario') || 'default');
+  const server = new FlashNetMockServer(scenario, {
+    port: parseInt(getArg('port') || process.env.MOCK_FLASHNET_PORT || '4100'),
+    quiet: args.includes('--quiet')
+  });
+
+  const port = await server.start();
+
+  console.log(chalk.hex('#00D9FF')(`🎭 FlashNet mock running scenario '${scenario.name}'`));
+  if (scenario.description) {
+    console.log(chalk.gray(`   ${scenario.description}`));
+  }
+  console.log(chalk.gray('   Point the sniper at it with:'));
+  console.log(`   FLASHNET_MAINNET_URL=http://localhost:${port}/mainnet`);
+  console.log(`   FLASHNET_REGTEST_URL=http://localhost:${port}/regtest`);
+
+  const shutdown = async (): Promise<void> => {
+    console.log(chalk.yellow('\n🛑 Stopping FlashNet mock...'));
+    await server.stop();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error(chalk.red('💥 FlashNet mock failed to start:'), error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,118 @@
+import { readFileSync } from 'fs';
+
+export type MockNetwork = 'MAINNET' | 'REGTEST';
+
+export interface MockPoolScript {
+  tokenAddress: string;          // Asset A, 64-char hex
+  tokenSymbol?: string;
+  tokenName?: string;
+  tokenReserve: number;
+  btcReserve: number;            // Asset B, in satoshis
+  appearsAtMs?: number;          // Pool is listed from this long after the server starts
+  bondingProgressPct?: number;
+  isGraduated?: boolean;
+  lpFeeBps?: number;
+  hostFeeBps?: number;
+  hostName?: string;
+  network?: MockNetwork;         // Listed on both networks when omitted
+}
+
+export interface MockWindow {
+  fromMs?: number;               // Window start, relative to server start
+  untilMs?: number;              // Window end, open-ended when omitted
+  network?: MockNetwork;         // Both networks when omitted
+  routes?: string[];             // e.g. '/ping', '/pools/:id', every route when omitted
+}
+
+export interface MockOutage extends MockWindow {
+  status?: number;               // HTTP status returned while offline, 503 by default
+}
+
+export interface MockRateLimit extends MockWindow {
+  allowEvery?: number;           // Let every Nth request through, none when omitted
+  retryAfterSec?: number;
+}
+
+export interface MockLatency extends MockWindow {
+  delayMs: number;
+}
+
+export interface MockScenario {
+  name: string;
+  description?: string;
+  pools?: MockPoolScript[];
+  outages?: MockOutage[];
+  rateLimits?: MockRateLimit[];
+  latency?: MockLatency[];
+}
+
+// Token the built-in scenarios launch
+export const MOCK_TOKEN_ADDRESS = 'c1c0c1c0c1c0c1c0c1c0c1c0c1c0c1c0c1c0c1c0c1c0c1c0c1c0c1c0c1c0c1c0';
+
+const mockPool: MockPoolScript = {
+  tokenAddress: MOCK_TOKEN_ADDRESS,
+  tokenSymbol: 'CLNK',
+  tokenName: 'Clunkers Test Token',
+  tokenReserve: 1000000000000,
+  btcReserve: 10000000,
+  bondingProgressPct: 12,
+  lpFeeBps: 30,
+  hostFeeBps: 10,
+  hostName: 'clunkers-mock'
+};
+
+export const MOCK_SCENARIOS: Record<string, MockScenario> = {
+  'default': {
+    name: 'default',
+    description: 'Both networks online with one pool listed',
+    pools: [mockPool]
+  },
+  'mainnet-offline-30s': {
+    name: 'mainnet-offline-30s',
+    description: 'Mainnet answers 503 for 30s then comes online, regtest stays up',
+    pools: [mockPool],
+    outages: [{ network: 'MAINNET', untilMs: 30000 }]
+  },
+  'pool-appears-10s': {
+    name: 'pool-appears-10s',
+    description: 'No pools until the token\'s pool is listed at T+10s',
+    pools: [{ ...mockPool, appearsAtMs: 10000 }]
+  },
+  '429-storm': {
+    name: '429-storm',
+    description: 'Four in five requests are rate limited for the first 20s',
+    pools: [mockPool],
+    rateLimits: [{ untilMs: 20000, allowEvery: 5, retryAfterSec: 1 }]
+  },
+  'slow-responses': {
+    name: 'slow-responses',
+    description: 'Every response takes 3s',
+    pools: [mockPool],
+    latency: [{ delayMs: 3000 }]
+  },
+  'launch': {
+    name: 'launch',
+    description: 'Mainnet offline for 30s, pool listed at T+35s under a 429 storm with slow swaps',
+    pools: [{ ...mockPool, network: 'MAINNET', appearsAtMs: 35000 }, { ...mockPool, network: 'REGTEST' }],
+    outages: [{ network: 'MAINNET', untilMs: 30000 }],
+    rateLimits: [{ network: 'MAINNET', fromMs: 30000, untilMs: 45000, allowEvery: 3, retryAfterSec: 1 }],
+    latency: [{ network: 'MAINNET', fromMs: 30000, routes: ['/swap/simulate', '/swap'], delayMs: 1500 }]
+  }
+};
+
+/**
+ * Get a built-in scenario by name, or load one from a JSON file
+ */
+export function loadMockScenario(nameOrPath: string): MockScenario {
+  const builtIn = MOCK_SCENARIOS[nameOrPath];
+  if (builtIn) {
+    return builtIn;
+  }
+
+  try {
+    const scenario = JSON.parse(readFileSync(nameOrPath, 'utf8')) as MockScenario;
+    return { ...scenario, name: scenario.name || nameOrPath };
+  } catch (error) {
+    throw new Error(`Unknown scenario '${nameOrPath}': ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
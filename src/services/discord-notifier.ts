@@ -76,14 +76,15 @@ export class DiscordNotifier {
   public async sendMonitoringNotification(
     profileName: string,
     activeSnipes: number,
-    status: 'STARTED' | 'STOPPED' | 'MAINNET_ONLINE'
+    status: 'STARTED' | 'STOPPED' | 'MAINNET_ONLINE',
+    isPaper: boolean = false
   ): Promise<boolean> {
     if (!this.isEnabled) {
       return false;
     }
 
     try {
-      const embed = this.createMonitoringEmbed(profileName, activeSnipes, status);
+      const embed = this.createMonitoringEmbed(profileName, activeSnipes, status, isPaper);
       const payload = this.createWebhookPayload([embed]);
       
       await this.sendWebhook(payload);
@@ -183,6 +184,19 @@ export class DiscordNotifier {
       }
     ];
 
+    // Label paper runs so they are never mistaken for real fills
+    if (result?.simulated) {
+      title = `📝 [PAPER] ${title}`;
+      description = `${description} (simulated, no swap submitted)`;
+    }
+
+    // A fill the wallet never showed must not read like a clean success
+    if (result?.success && result.verification === 'UNVERIFIED') {
+      color = this.colors.warning;
+      title = `⚠️ [UNVERIFIED] ${title}`;
+      description = `${description} - tokens not yet seen in the wallet`;
+    }
+
     // Add result-specific fields
     if (result) {
       if (result.success) {
@@ -194,6 +208,14 @@ export class DiscordNotifier {
           });
         }
         
+        if (result.verification) {
+          fields.push({
+            name: result.verification === 'VERIFIED' ? '🔍 Verified' : '⚠️ UNVERIFIED',
+            value: `${result.verifiedTokens || '0'} of ${result.reportedTokens || '?'} reported in wallet`,
+            inline: true
+          });
+        }
+
         if (result.actualPrice) {
           fields.push({
             name: '💲 Final Price',
@@ -259,7 +281,8 @@ export class DiscordNotifier {
   private createMonitoringEmbed(
     profileName: string,
     activeSnipes: number,
-    status: 'STARTED' | 'STOPPED' | 'MAINNET_ONLINE'
+    status: 'STARTED' | 'STOPPED' | 'MAINNET_ONLINE',
+    isPaper: boolean
   ): DiscordEmbed {
     let color: number;
     let title: string;
@@ -299,11 +322,15 @@ export class DiscordNotifier {
     if (status === 'MAINNET_ONLINE') {
       fields.push({
         name: '⚡ Status',
-        value: 'Executing all active snipes in parallel...',
+        value: isPaper ? 'Paper trading all active snipes (no swaps submitted)...' : 'Executing all active snipes in parallel...',
         inline: false
       });
     }
 
+    if (isPaper) {
+      title = `📝 [PAPER] ${title}`;
+    }
+
     return {
       title,
       description,
@@ -327,6 +354,8 @@ export class DiscordNotifier {
     const successful = results.filter(r => r.success).length;
     const failed = results.length - successful;
     const successRate = results.length > 0 ? (successful / results.length) * 100 : 0;
+    const isPaper = results.length > 0 && results.every(r => r.simulated);
+    const unverified = results.filter(r => r.success && r.verification === 'UNVERIFIED').length;
 
     const color = successful > failed ? this.colors.success : failed > successful ? this.colors.error : this.colors.warning;
     
@@ -363,15 +392,24 @@ export class DiscordNotifier {
       }
     ];
 
+    if (unverified > 0) {
+      fields.push({
+        name: '⚠️ UNVERIFIED',
+        value: `${unverified} fills not seen in their wallets`,
+        inline: true
+      });
+    }
+
     // Add individual snipe results (limit to prevent message being too long)
     const displayResults = results.slice(0, 5);
     for (const result of displayResults) {
-      const status = result.success ? '✅' : '❌';
+      const isUnverified = result.success && result.verification === 'UNVERIFIED';
+      const status = result.success ? (result.simulated ? '📝' : isUnverified ? '⚠️' : '✅') : '❌';
       const timing = result.executionTime ? ` (${result.executionTime}ms)` : '';
       
       fields.push({
         name: `${status} Snipe`,
-        value: `\`${this.truncateAddress(result.snipeId)}\`${timing}`,
+        value: `\`${this.truncateAddress(result.snipeId)}\`${timing}${isUnverified ? ' UNVERIFIED' : ''}`,
         inline: true
       });
     }
@@ -385,8 +423,10 @@ export class DiscordNotifier {
     }
 
     return {
-      title: '📋 Execution Summary',
-      description: `Completed snipe execution for profile **${profileName}**`,
+      title: isPaper ? '📝 [PAPER] Execution Summary' : '📋 Execution Summary',
+      description: isPaper
+        ? `Completed paper run for profile **${profileName}** - no swaps were submitted`
+        : `Completed snipe execution for profile **${profileName}**`,
       color,
       fields,
       timestamp: new Date().toISOString(),
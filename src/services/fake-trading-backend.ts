@@ -0,0 +1,425 @@
+import { readFileSync } from 'fs';
+import crypto from 'crypto';
+import {
+  BTC_ASSET_ADDRESS,
+  BackendBalance,
+  BackendNetwork,
+  BackendOperation,
+  BackendPool,
+  BackendTokenBalance,
+  BackendWallet,
+  PoolPage,
+  PoolQuery,
+  SwapExecution,
+  SwapRequest,
+  SwapSimulation,
+  SwapSimulationRequest,
+  TradingBackend
+} from '../types/backend';
+import { config } from '../utils/config';
+import { QuoteEngine } from '../utils/quote-engine';
+
+export interface FakePoolScript {
+  tokenAddress: string;
+  tokenReserve: number;          // Asset A, in token base units
+  btcReserve: number;            // Asset B, in satoshis
+  virtualTokenReserve?: number;  // Set both virtual reserves to make a bonding curve
+  virtualBtcReserve?: number;
+  bondingProgressPct?: number;
+  lpFeeBps?: number;
+  hostFeeBps?: number;
+  listedAfterMs?: number;        // Pool stays hidden until this long after the backend starts
+  status?: string;
+}
+
+export interface FakeFailureScript {
+  operation: BackendOperation;
+  message: string;
+  afterCalls?: number;           // Successful calls before the first failure
+  times?: number;                // Failures before the operation recovers, every call when omitted
+}
+
+export interface FakeBackendScenario {
+  pools?: FakePoolScript[];
+  walletBalanceSats?: number;    // BTC every new wallet starts with
+  latencyMs?: number | Partial<Record<BackendOperation, number>>;
+  failures?: FakeFailureScript[];
+}
+
+interface FakePool {
+  script: FakePoolScript;
+  poolId: string;
+  tokenReserve: number;
+  btcReserve: number;
+  virtualTokenReserve?: number;
+  virtualBtcReserve?: number;
+  status: string;
+  listedAt: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface FakeWalletState {
+  btc: number;
+  tokens: Map<string, number>;
+}
+
+/**
+ * Deterministic in-memory AMM with scripted pools, latencies and failures, so the
+ * sniper can run end to end without network access
+ */
+export class FakeTradingBackend implements TradingBackend {
+  private static instance: FakeTradingBackend;
+
+  public readonly name = 'FAKE';
+  private scenario: FakeBackendScenario;
+  private startedAt: number;
+  private pools: Map<string, FakePool> = new Map();
+  private wallets: Map<string, FakeWalletState> = new Map();
+  private callCounts: Map<BackendOperation, number> = new Map();
+
+  constructor(scenario: FakeBackendScenario = {}) {
+    this.scenario = scenario;
+    this.startedAt = Date.now();
+    (scenario.pools || []).forEach(pool => this.addPool(pool));
+  }
+
+  /**
+   * Get the shared fake, loading the scenario file named in the config
+   */
+  public static getInstance(): FakeTradingBackend {
+    if (!FakeTradingBackend.instance) {
+      FakeTradingBackend.instance = new FakeTradingBackend(FakeTradingBackend.loadScenario(config.get('fakeBackendScenario')));
+    }
+    return FakeTradingBackend.instance;
+  }
+
+  /**
+   * Read a scenario from a JSON file, an empty scenario when no file is given
+   */
+  public static loadScenario(filePath?: string): FakeBackendScenario {
+    if (!filePath) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(readFileSync(filePath, 'utf8')) as FakeBackendScenario;
+    } catch (error) {
+      throw new Error(`Failed to load fake backend scenario ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get the pool ID the fake gives a token's pool
+   */
+  public static getPoolId(tokenAddress: string): string {
+    return '02' + crypto.createHash('sha256').update(`pool:${tokenAddress}`).digest('hex');
+  }
+
+  /**
+   * Add a pool, listed from now on unless the script delays it
+   */
+  public addPool(script: FakePoolScript): string {
+    const poolId = FakeTradingBackend.getPoolId(script.tokenAddress);
+    const listedAt = this.startedAt + (script.listedAfterMs || 0);
+    const timestamp = new Date(Math.max(listedAt, Date.now())).toISOString();
+
+    this.pools.set(poolId, {
+      script,
+      poolId,
+      tokenReserve: script.tokenReserve,
+      btcReserve: script.btcReserve,
+      virtualTokenReserve: script.virtualTokenReserve,
+      virtualBtcReserve: script.virtualBtcReserve,
+      status: script.status || 'ACTIVE',
+      listedAt,
+      createdAt: timestamp,
+      updatedAt: timestamp
+    });
+
+    return poolId;
+  }
+
+  /**
+   * Change the status of a pool, e.g. to graduate a bonding curve
+   */
+  public setPoolStatus(poolId: string, status: string): void {
+    const pool = this.pools.get(poolId);
+    if (!pool) {
+      throw new Error(`Pool ${poolId} not found`);
+    }
+
+    pool.status = status;
+    pool.updatedAt = new Date().toISOString();
+  }
+
+  /**
+   * Add BTC to a wallet
+   */
+  public fundWallet(address: string, amountSats: number): void {
+    this.getWalletState(address).btc += amountSats;
+  }
+
+  /**
+   * Get how many times an operation was called, failed calls included
+   */
+  public getCallCount(operation: BackendOperation): number {
+    return this.callCounts.get(operation) || 0;
+  }
+
+  /**
+   * Derive a wallet address from its seed
+   */
+  public async initializeWallet(mnemonicOrSeed: string, network: BackendNetwork): Promise<BackendWallet> {
+    return this.run('initializeWallet', () => {
+      const hash = crypto.createHash('sha256').update(`${network}:${mnemonicOrSeed}`).digest('hex');
+      const address = `${network === 'MAINNET' ? 'sp1' : 'sprt1'}${hash.substring(0, 58)}`;
+      this.getWalletState(address);
+
+      return { address, network };
+    });
+  }
+
+  /**
+   * Get BTC and token balances of a wallet
+   */
+  public async getBalance(wallet: BackendWallet): Promise<BackendBalance> {
+    return this.run('getBalance', () => {
+      const state = this.getWalletState(wallet.address);
+      const tokenBalances = new Map<string, BackendTokenBalance>();
+
+      state.tokens.forEach((amount, tokenAddress) => {
+        tokenBalances.set(tokenAddress, {
+          balance: BigInt(amount),
+          tokenInfo: { tokenIdentifier: tokenAddress, tokenAddress }
+        });
+      });
+
+      return { balance: BigInt(state.btc), tokenBalances };
+    });
+  }
+
+  /**
+   * List one page of listed pools
+   */
+  public async listPools(_wallet: BackendWallet, query: PoolQuery = {}): Promise<PoolPage> {
+    return this.run('listPools', () => {
+      const pools = this.getListedPools()
+        .filter(pool => !query.afterUpdatedAt || pool.updatedAt > query.afterUpdatedAt)
+        .sort((a, b) => query.sort === 'CREATED_AT_ASC'
+          ? a.createdAt.localeCompare(b.createdAt)
+          : b.createdAt.localeCompare(a.createdAt));
+
+      const offset = query.offset || 0;
+      const limit = query.limit || pools.length;
+
+      return {
+        pools: pools.slice(offset, offset + limit).map(pool => this.toBackendPool(pool)),
+        totalCount: pools.length
+      };
+    });
+  }
+
+  /**
+   * Get a listed pool by ID
+   */
+  public async getPool(_wallet: BackendWallet, poolId: string): Promise<BackendPool> {
+    return this.run('getPool', () => this.toBackendPool(this.getListedPool(poolId)));
+  }
+
+  /**
+   * Quote a swap against the current reserves
+   */
+  public async simulateSwap(_wallet: BackendWallet, request: SwapSimulationRequest): Promise<SwapSimulation> {
+    return this.run('simulateSwap', () => {
+      const { quote } = this.quoteSwap(request);
+
+      return {
+        amountOut: quote.amountOut.toString(),
+        executionPrice: quote.executionPrice.toString(),
+        feePaidAssetIn: (quote.lpFee + quote.hostFee).toString(),
+        priceImpactPct: quote.priceImpactPct.toFixed(4)
+      };
+    });
+  }
+
+  /**
+   * Execute a swap, moving reserves and balances
+   */
+  public async executeSwap(wallet: BackendWallet, request: SwapRequest): Promise<SwapExecution> {
+    return this.run('executeSwap', () => {
+      const { pool, quote, btcIn } = this.quoteSwap(request);
+      const state = this.getWalletState(wallet.address);
+      const amountIn = quote.amountIn;
+
+      const available = btcIn ? state.btc : (state.tokens.get(pool.script.tokenAddress) || 0);
+      if (available < amountIn) {
+        return { accepted: false, error: `Insufficient balance: have ${available}, need ${amountIn}` };
+      }
+
+      if (quote.amountOut <= 0 || quote.amountOut < parseFloat(request.minAmountOut)) {
+        return { accepted: false, error: `Slippage exceeded: ${quote.amountOut} below minimum ${request.minAmountOut}` };
+      }
+
+      // The LP fee stays in the pool, the host fee leaves it
+      const added = amountIn - quote.hostFee;
+      const tokenDelta = btcIn ? -quote.amountOut : added;
+      const btcDelta = btcIn ? added : -quote.amountOut;
+
+      pool.tokenReserve += tokenDelta;
+      pool.btcReserve += btcDelta;
+      if (pool.virtualTokenReserve !== undefined && pool.virtualBtcReserve !== undefined) {
+        pool.virtualTokenReserve += tokenDelta;
+        pool.virtualBtcReserve += btcDelta;
+      }
+      pool.updatedAt = new Date().toISOString();
+
+      const tokenBalance = state.tokens.get(pool.script.tokenAddress) || 0;
+      if (btcIn) {
+        state.btc -= amountIn;
+        state.tokens.set(pool.script.tokenAddress, tokenBalance + quote.amountOut);
+      } else {
+        state.tokens.set(pool.script.tokenAddress, tokenBalance - amountIn);
+        state.btc += quote.amountOut;
+      }
+
+      const txId = crypto.createHash('sha256')
+        .update(`${wallet.address}:${pool.poolId}:${this.getCallCount('executeSwap')}`)
+        .digest('hex');
+
+      return {
+        accepted: true,
+        amountOut: quote.amountOut.toString(),
+        executionPrice: quote.executionPrice.toString(),
+        feeAmount: (quote.lpFee + quote.hostFee).toString(),
+        txId
+      };
+    });
+  }
+
+  /**
+   * Nothing to release, balances outlive the wallet handle like on a real chain
+   */
+  public releaseWallet(_wallet: BackendWallet): void {}
+
+  /**
+   * Count a call, apply its scripted latency and failures, then run it
+   */
+  private async run<T>(operation: BackendOperation, fn: () => T): Promise<T> {
+    const count = this.getCallCount(operation) + 1;
+    this.callCounts.set(operation, count);
+
+    const latency = this.getLatency(operation);
+    if (latency > 0) {
+      await new Promise(resolve => setTimeout(resolve, latency));
+    }
+
+    const failure = (this.scenario.failures || []).find(script => {
+      const after = script.afterCalls || 0;
+      return script.operation === operation &&
+        count > after &&
+        (script.times === undefined || count <= after + script.times);
+    });
+    if (failure) {
+      throw new Error(failure.message);
+    }
+
+    return fn();
+  }
+
+  /**
+   * Get the scripted latency of an operation
+   */
+  private getLatency(operation: BackendOperation): number {
+    const latency = this.scenario.latencyMs;
+    if (typeof latency === 'number') {
+      return latency;
+    }
+    return latency?.[operation] || 0;
+  }
+
+  /**
+   * Quote a swap request, checking the pool trades both of its assets
+   */
+  private quoteSwap(request: SwapSimulationRequest) {
+    const pool = this.getListedPool(request.poolId);
+    const assets = [pool.script.tokenAddress, BTC_ASSET_ADDRESS];
+
+    if (!assets.includes(request.assetInAddress) || !assets.includes(request.assetOutAddress) ||
+        request.assetInAddress === request.assetOutAddress) {
+      throw new Error(`Pool ${pool.poolId.substring(0, 12)}... does not trade ${request.assetInAddress} for ${request.assetOutAddress}`);
+    }
+
+    const amountIn = parseFloat(request.amountIn);
+    if (!(amountIn > 0)) {
+      throw new Error(`Invalid swap amount: ${request.amountIn}`);
+    }
+
+    const btcIn = request.assetInAddress === BTC_ASSET_ADDRESS;
+    const reserves = QuoteEngine.reservesFromPool(this.toBackendPool(pool), !btcIn);
+    if (!reserves) {
+      throw new Error(`Pool ${pool.poolId.substring(0, 12)}... has no liquidity`);
+    }
+
+    return { pool, btcIn, quote: QuoteEngine.quote(reserves, amountIn) };
+  }
+
+  /**
+   * Get pools whose listing time has passed
+   */
+  private getListedPools(): FakePool[] {
+    const now = Date.now();
+    return Array.from(this.pools.values()).filter(pool => pool.listedAt <= now);
+  }
+
+  /**
+   * Get a listed pool, treating pools that are not listed yet as missing
+   */
+  private getListedPool(poolId: string): FakePool {
+    const pool = this.pools.get(poolId);
+    if (!pool || pool.listedAt > Date.now()) {
+      throw new Error(`Pool ${poolId} not found`);
+    }
+    return pool;
+  }
+
+  /**
+   * Get the balances of a wallet, funding new wallets from the scenario
+   */
+  private getWalletState(address: string): FakeWalletState {
+    let state = this.wallets.get(address);
+    if (!state) {
+      state = { btc: this.scenario.walletBalanceSats || 0, tokens: new Map() };
+      this.wallets.set(address, state);
+    }
+    return state;
+  }
+
+  /**
+   * Convert a fake pool to a backend pool, the token as asset A and BTC as asset B
+   */
+  private toBackendPool(pool: FakePool): BackendPool {
+    const isCurve = pool.virtualTokenReserve !== undefined && pool.virtualBtcReserve !== undefined;
+    const priceToken = isCurve ? pool.virtualTokenReserve! : pool.tokenReserve;
+    const priceBtc = isCurve ? pool.virtualBtcReserve! : pool.btcReserve;
+
+    return {
+      poolId: pool.poolId,
+      lpPublicKey: pool.poolId,
+      assetAAddress: pool.script.tokenAddress,
+      assetBAddress: BTC_ASSET_ADDRESS,
+      assetAReserve: pool.tokenReserve.toString(),
+      assetBReserve: pool.btcReserve.toString(),
+      virtualReserveA: isCurve ? pool.virtualTokenReserve!.toString() : undefined,
+      virtualReserveB: isCurve ? pool.virtualBtcReserve!.toString() : undefined,
+      currentPriceAInB: priceToken > 0 ? (priceBtc / priceToken).toString() : undefined,
+      bondingProgressPercent: pool.script.bondingProgressPct?.toString(),
+      curveType: isCurve ? 'SINGLE_SIDED' : 'CONSTANT_PRODUCT',
+      lpFeeBps: pool.script.lpFeeBps ?? 30,
+      hostFeeBps: pool.script.hostFeeBps ?? 0,
+      status: pool.status,
+      createdAt: pool.createdAt,
+      updatedAt: pool.updatedAt
+    };
+  }
+}
@@ -12,10 +12,12 @@ import {
   FlashNetSwapRequest,
   FlashNetSwapResponse,
   APIError,
-  NetworkError
+  NetworkError,
+  ServerTimeSample
 } from '../types/api';
 import { PoolData } from '../types/profile';
 import { config } from '../utils/config';
+import { QuoteEngine } from '../utils/quote-engine';
 
 export class FlashNetClient {
   private mainnetClient: AxiosInstance;
@@ -104,6 +106,32 @@ export class FlashNetClient {
     }
   }
 
+  /**
+   * Sample the server clock, preferring the ping timestamp over the second-resolution Date header
+   */
+  public async getServerTime(): Promise<ServerTimeSample> {
+    try {
+      const sentAt = Date.now();
+      const response = await this.getClient().get<FlashNetPingResponse>('/ping');
+      const receivedAt = Date.now();
+
+      const pingTime = Date.parse(response.data?.timestamp);
+      const headerTime = Date.parse(response.headers['date'] || '');
+      if (isNaN(pingTime) && isNaN(headerTime)) {
+        throw new Error('Server response carried no usable timestamp');
+      }
+
+      return {
+        serverTime: isNaN(pingTime) ? headerTime : pingTime,
+        localTime: sentAt + (receivedAt - sentAt) / 2,
+        roundTripMs: receivedAt - sentAt,
+        source: isNaN(pingTime) ? 'DATE_HEADER' : 'PING'
+      };
+    } catch (error) {
+      throw this.transformError(error);
+    }
+  }
+
   /**
    * Check if network is online
    */
@@ -144,6 +172,22 @@ export class FlashNetClient {
     }
   }
 
+  /**
+   * Get every pool updated after a timestamp, reading pages until one comes back short
+   */
+  public async getPoolsUpdatedSince(afterUpdatedAt?: string, pageSize: number = 100): Promise<FlashNetPoolResponse[]> {
+    const pools: FlashNetPoolResponse[] = [];
+
+    for (let offset = 0; ; offset += pageSize) {
+      const page = await this.getPools({ limit: pageSize, offset, sort: 'CREATED_AT_DESC', afterUpdatedAt });
+      pools.push(...page.pools);
+
+      if (page.pools.length < pageSize || pools.length >= page.total) {
+        return pools;
+      }
+    }
+  }
+
   /**
    * Get a specific pool by ID
    */
@@ -176,15 +220,17 @@ export class FlashNetClient {
   }
 
   /**
-   * Transform FlashNet pool to internal PoolData format
+   * Transform FlashNet pool to internal PoolData format, estimating the tokens an amount buys
    */
-  public transformPoolData(pool: FlashNetPoolResponse): PoolData {
+  public transformPoolData(pool: FlashNetPoolResponse, amountInSats?: number): PoolData {
     const currentPrice = pool.currentPriceAInB || 0;
     const btcReserve = parseFloat(pool.assetBReserve || '0');
-    const tokenReserve = parseFloat(pool.assetAReserve || '0');
-    
-    // Estimate tokens to receive (simplified calculation)
-    const estimatedTokens = currentPrice > 0 ? (1 / currentPrice).toFixed(8) : '0';
+
+    // Quote from the reserves when they are known, BTC is asset B
+    const reserves = QuoteEngine.reservesFromPool(pool, false);
+    const estimatedTokens = reserves && amountInSats
+      ? QuoteEngine.quote(reserves, amountInSats).amountOut.toString()
+      : currentPrice > 0 ? (1 / currentPrice).toFixed(8) : '0';
 
     return {
       poolId: pool.lpPublicKey,
@@ -0,0 +1,138 @@
+import { IssuerSparkWallet } from '@buildonspark/issuer-sdk';
+import { FlashnetClient, AmmPool, PoolDetailsResponse } from '@flashnet/sdk';
+import {
+  BackendBalance,
+  BackendNetwork,
+  BackendPool,
+  BackendWallet,
+  PoolPage,
+  PoolQuery,
+  SwapExecution,
+  SwapRequest,
+  SwapSimulation,
+  SwapSimulationRequest,
+  TradingBackend
+} from '../types/backend';
+
+/**
+ * Trading backend on the Spark wallet and FlashNet SDKs
+ */
+export class SdkTradingBackend implements TradingBackend {
+  public readonly name = 'SDK';
+  private clients: Map<string, FlashnetClient> = new Map();
+
+  /**
+   * Initialize a Spark wallet and authenticate its FlashNet client
+   */
+  public async initializeWallet(mnemonicOrSeed: string, network: BackendNetwork): Promise<BackendWallet> {
+    const { wallet } = await IssuerSparkWallet.initialize({
+      mnemonicOrSeed,
+      options: { network }
+    });
+
+    const client = new FlashnetClient(wallet);
+    await client.initialize(); // Auto-authenticates
+
+    const handle: BackendWallet = { address: client.address, network };
+    this.clients.set(this.getClientKey(handle), client);
+
+    return handle;
+  }
+
+  /**
+   * Get BTC and token balances of a wallet
+   */
+  public async getBalance(wallet: BackendWallet): Promise<BackendBalance> {
+    return this.getClient(wallet).getBalance();
+  }
+
+  /**
+   * List one page of pools
+   */
+  public async listPools(wallet: BackendWallet, query?: PoolQuery): Promise<PoolPage> {
+    const response = await this.getClient(wallet).listPools(query);
+    return {
+      pools: response.pools.map(pool => this.toBackendPool(pool)),
+      totalCount: response.totalCount
+    };
+  }
+
+  /**
+   * Get a pool by its LP public key
+   */
+  public async getPool(wallet: BackendWallet, poolId: string): Promise<BackendPool> {
+    return this.toBackendPool(await this.getClient(wallet).getPool(poolId));
+  }
+
+  /**
+   * Simulate a swap on the AMM
+   */
+  public async simulateSwap(wallet: BackendWallet, request: SwapSimulationRequest): Promise<SwapSimulation> {
+    return this.getClient(wallet).simulateSwap(request);
+  }
+
+  /**
+   * Execute a swap on the AMM
+   */
+  public async executeSwap(wallet: BackendWallet, request: SwapRequest): Promise<SwapExecution> {
+    const response = await this.getClient(wallet).executeSwap(request);
+    return {
+      accepted: response.accepted,
+      amountOut: response.amountOut,
+      executionPrice: response.executionPrice,
+      feeAmount: response.feeAmount,
+      txId: response.outboundTransferId || response.requestId,
+      error: response.error
+    };
+  }
+
+  /**
+   * Drop the authenticated client of a wallet that is no longer used
+   */
+  public releaseWallet(wallet: BackendWallet): void {
+    this.clients.delete(this.getClientKey(wallet));
+  }
+
+  /**
+   * Get the authenticated client of a wallet
+   */
+  private getClient(wallet: BackendWallet): FlashnetClient {
+    const client = this.clients.get(this.getClientKey(wallet));
+    if (!client) {
+      throw new Error(`Wallet ${wallet.address.substring(0, 12)}... is not initialized on the SDK backend`);
+    }
+
+    return client;
+  }
+
+  /**
+   * Key clients by network, since a seed has a different address on each
+   */
+  private getClientKey(wallet: BackendWallet): string {
+    return `${wallet.network}:${wallet.address}`;
+  }
+
+  /**
+   * Convert an SDK pool to a backend pool
+   */
+  private toBackendPool(pool: AmmPool | PoolDetailsResponse): BackendPool {
+    return {
+      poolId: pool.lpPublicKey,
+      lpPublicKey: pool.lpPublicKey,
+      assetAAddress: pool.assetAAddress,
+      assetBAddress: pool.assetBAddress,
+      assetAReserve: pool.assetAReserve,
+      assetBReserve: pool.assetBReserve,
+      virtualReserveA: pool.virtualReserveA,
+      virtualReserveB: pool.virtualReserveB,
+      currentPriceAInB: pool.currentPriceAInB,
+      bondingProgressPercent: pool.bondingProgressPercent,
+      curveType: pool.curveType,
+      lpFeeBps: pool.lpFeeBps,
+      hostFeeBps: pool.hostFeeBps,
+      status: 'status' in pool ? pool.status : undefined,
+      createdAt: pool.createdAt,
+      updatedAt: 'updatedAt' in pool ? pool.updatedAt : undefined
+    };
+  }
+}
@@ -7,9 +7,17 @@ export interface FlashNetPingResponse {
   settlementTimestamp?: string;
 }
 
+export interface ServerTimeSample {
+  serverTime: number;         // Server clock in epoch milliseconds
+  localTime: number;          // Local clock at the midpoint of the request
+  roundTripMs: number;
+  source: 'PING' | 'DATE_HEADER';
+}
+
 export interface FlashNetPoolResponse {
   lpPublicKey: string;
   assetAAddress: string;        // Token address (64-char hex)
+  assetBAddress?: string;       // BTC, or the token when BTC is asset A
   assetAReserve: string;       // Token reserves
   assetBReserve: string;       // BTC reserves
   currentPriceAInB: number;    // Price per token in BTC
@@ -0,0 +1,99 @@
+export type BackendNetwork = 'MAINNET' | 'REGTEST';
+
+export type BackendOperation = 'initializeWallet' | 'getBalance' | 'listPools' | 'getPool' | 'simulateSwap' | 'executeSwap';
+
+// Address FlashNet uses for BTC on either side of a pool
+export const BTC_ASSET_ADDRESS = '020202020202020202020202020202020202020202020202020202020202020202';
+
+export interface BackendWallet {
+  address: string;               // Spark address
+  network: BackendNetwork;
+}
+
+export interface BackendTokenBalance {
+  balance: bigint;
+  tokenInfo?: {
+    tokenIdentifier?: string;
+    tokenAddress?: string;
+    tokenSymbol?: string;
+  };
+}
+
+export interface BackendBalance {
+  balance: bigint;               // BTC in satoshis
+  tokenBalances: Map<string, BackendTokenBalance>;
+}
+
+export interface BackendPool {
+  poolId: string;                // Same as lpPublicKey
+  lpPublicKey: string;
+  assetAAddress: string;
+  assetBAddress: string;
+  assetAReserve?: string;
+  assetBReserve?: string;
+  virtualReserveA?: string;      // Bonding curves price off virtual reserves
+  virtualReserveB?: string;
+  currentPriceAInB?: string;
+  bondingProgressPercent?: string;
+  curveType?: string;
+  lpFeeBps: number;
+  hostFeeBps: number;
+  status?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface PoolQuery {
+  limit?: number;
+  offset?: number;
+  sort?: 'CREATED_AT_DESC' | 'CREATED_AT_ASC';
+  afterUpdatedAt?: string;       // ISO timestamp
+}
+
+export interface PoolPage {
+  pools: BackendPool[];
+  totalCount: number;
+}
+
+export interface SwapSimulationRequest {
+  poolId: string;
+  assetInAddress: string;
+  assetOutAddress: string;
+  amountIn: string;              // Smallest units of the input asset
+}
+
+export interface SwapSimulation {
+  amountOut: string;
+  executionPrice?: string;
+  feePaidAssetIn?: string;
+  priceImpactPct?: string;
+  warningMessage?: string;
+}
+
+export interface SwapRequest extends SwapSimulationRequest {
+  minAmountOut: string;
+  maxSlippageBps: number;
+}
+
+export interface SwapExecution {
+  accepted: boolean;
+  amountOut?: string;
+  executionPrice?: string;
+  feeAmount?: string;
+  txId?: string;                 // Outbound transfer of the swap
+  error?: string;                // Why the swap was rejected
+}
+
+/**
+ * Everything the sniper needs from a wallet and the AMM, so the SDK can be swapped for a fake
+ */
+export interface TradingBackend {
+  readonly name: string;
+  initializeWallet(mnemonicOrSeed: string, network: BackendNetwork): Promise<BackendWallet>;
+  getBalance(wallet: BackendWallet): Promise<BackendBalance>;
+  listPools(wallet: BackendWallet, query?: PoolQuery): Promise<PoolPage>;
+  getPool(wallet: BackendWallet, poolId: string): Promise<BackendPool>;
+  simulateSwap(wallet: BackendWallet, request: SwapSimulationRequest): Promise<SwapSimulation>;
+  executeSwap(wallet: BackendWallet, request: SwapRequest): Promise<SwapExecution>;
+  releaseWallet(wallet: BackendWallet): void;    // Drop any client kept for the wallet
+}
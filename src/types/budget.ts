@@ -0,0 +1,39 @@
+export type BudgetScope = 'PROFILE_TOTAL' | 'PER_TOKEN' | 'DAILY';
+
+export type SpendStage = 'RESERVED' | 'SPENT' | 'RELEASED';
+
+export interface BudgetLimits {
+  profileName: string;
+  maxTotalSpendSats?: number;    // All-time spend of the profile
+  maxSpendPerTokenSats?: number; // All-time spend of the profile on one token
+  dailySpendCapSats?: number;    // Spend of all profiles since midnight UTC
+}
+
+export interface SpendLedgerEntry {
+  reservationId: string;         // Groups the stages of one reservation
+  profileName: string;
+  snipeId: string;
+  tokenAddress: string;
+  amountSats: number;
+  stage: SpendStage;
+  timestamp: string;             // ISO timestamp
+}
+
+export interface SpendRequest {
+  snipeId: string;
+  tokenAddress: string;
+  amountSats: number;
+}
+
+export interface BudgetDecision {
+  allowed: boolean;
+  reservationId?: string;
+  scope?: BudgetScope;           // The cap that refused the spend
+  reason?: string;
+}
+
+export interface BudgetUsage {
+  profileSpentSats: number;
+  dailySpentSats: number;        // Across all profiles
+  perTokenSpentSats: Record<string, number>;
+}
@@ -0,0 +1,42 @@
+export type JournalStage = 'INTENT' | 'SUBMITTED' | 'CONFIRMED' | 'FAILED' | 'RECONCILED' | 'RECORDED';
+
+export type ReconcileOutcome = 'NOT_SUBMITTED' | 'FILLED' | 'NOT_FILLED';
+
+export interface JournalEntry {
+  swapId: string;                // Groups the stages of one swap
+  snipeId: string;
+  stage: JournalStage;
+  network?: 'MAINNET' | 'REGTEST';
+  walletAddress?: string;        // Wallet that swapped, absent for single-wallet snipes
+  trancheIndex?: number;
+  poolId?: string;
+  assetOutToken?: string;
+  amountSats?: number;
+  minAmountOut?: string;
+  tokenBalanceBefore?: number;   // Target token held before the swap, when known
+  reservationId?: string;        // Spend reservation held until the swap's outcome is known
+  txId?: string;
+  tokensReceived?: string;
+  outcome?: ReconcileOutcome;
+  error?: string;
+  timestamp: string;             // ISO timestamp
+}
+
+export interface ReconcileReport {
+  snipeId: string;
+  swapId: string;
+  outcome: ReconcileOutcome | 'UNKNOWN';
+  poolId?: string;
+  reservationId?: string;
+  tokensReceived?: string;
+  error?: string;
+}
+
+export interface RecoveredFill {
+  snipeId: string;
+  poolId?: string;
+  txId?: string;
+  tokensReceived: number;
+  amountSats: number;
+  swaps: number;
+}
@@ -0,0 +1,59 @@
+export interface ExitRules {
+  takeProfit?: TakeProfitLevel[];  // Partial sells as the price multiplies
+  stopLossPct?: number;            // Sell everything this far below entry
+  maxHoldMs?: number;              // Sell everything after holding this long
+}
+
+export interface TakeProfitLevel {
+  multiple: number;                // Price multiple of entry, e.g. 2 for 2x
+  sellPct: number;                 // Percent of acquired tokens to sell
+}
+
+export interface Position {
+  id: string;
+  snipeId: string;
+  profileName: string;
+  tokenAddress: string;
+  poolId: string;
+  tokenAsset: string;              // Pool asset sold on exit
+  btcAsset: string;                // Pool asset received on exit
+  entryPrice: number;              // Sats per token paid on entry
+  costSats: number;
+  tokensAcquired: string;
+  tokensRemaining: string;
+  realizedSats: number;            // Sats received from exits so far
+  exitRules: ExitRules;
+  triggeredTakeProfits: number[];  // Indices of take-profit levels already sold
+  status: PositionStatus;
+  openedAt: Date;
+  closedAt?: Date;
+  ledger: PositionLedgerEntry[];
+}
+
+export type PositionStatus =
+  | 'OPEN'          // Holding tokens, exit rules active
+  | 'CLOSED';       // All tokens sold
+
+export interface PositionLedgerEntry {
+  type: 'BUY' | 'SELL';
+  reason: ExitReason | 'ENTRY';
+  tokens: string;
+  sats: number;
+  price: number;                   // Sats per token
+  transactionHash?: string;
+  error?: string;                  // Set when a sell attempt failed
+  attempts?: number;               // Failed sell attempts this entry stands for
+  takeProfitIndex?: number;        // Take-profit level the sell was for
+  holdingsBefore?: WalletHoldings; // Set when a failed sell may still have gone through
+  timestamp: Date;
+}
+
+export interface WalletHoldings {
+  tokens: number;
+  sats: number;
+}
+
+export type ExitReason =
+  | 'TAKE_PROFIT'
+  | 'STOP_LOSS'
+  | 'TIME_EXIT';
@@ -1,3 +1,5 @@
+import { ExitRules } from './position';
+
 export interface Profile {
   name: string;
   createdAt: Date;
@@ -8,11 +10,13 @@ export interface Profile {
 
 export interface ProfileSettings {
   defaultAmount: string;          // Default BTC amount for new snipes
-  maxRetries: number;             // Default: 20
-  retryDelay: number;             // Default: 2s initial, 5s max
+  maxRetries?: number;            // Unset falls back to the config default
+  retryDelay?: number;            // Initial retry delay in ms, unset falls back to the config default
   enableDiscordAlerts: boolean;   // Discord webhook notifications
-  slippageTolerance: number;      // Default: 10%
-  network: 'MAINNET' | 'REGTEST'; // Current network preference
+  slippageTolerance?: number;     // Percent, unset falls back to the config default
+  network?: 'MAINNET' | 'REGTEST'; // Unset falls back to the config default
+  maxTotalSpendBtc?: string;      // Cap on everything this profile ever spends
+  maxSpendPerToken?: string;      // Cap on what this profile spends on one token
 }
 
 export interface Snipe {
@@ -22,12 +26,70 @@ export interface Snipe {
   walletAddress: string;          // FlashNet wallet address (Spark)
   bitcoinAddress?: string;        // Bitcoin Taproot address for funding
   encryptedMnemonic: string;      // Encrypted wallet mnemonic
+  fanOutWallets?: SnipeWallet[];  // Extra wallets amountBtc is split across, swapping concurrently
   isActive: boolean;             // Active/Inactive state
   poolData?: PoolData;           // Fetched pool information
   createdAt: Date;
-  lastTestedAt?: Date;           // Last regtest execution
+  lastTestedAt?: Date;           // Last regtest rehearsal
   executedAt?: Date;             // Mainnet execution timestamp
+  lastResult?: SnipeResult;      // Outcome of the most recent execution
+  priceLimits?: PriceLimits;     // Guards checked against the simulation before swapping
+  tranches?: TrancheSchedule;    // Split amountBtc into several swaps
+  slippageSchedule?: SlippageSchedule; // Widen slippage on each retry instead of a fixed tolerance
+  settingsOverrides?: SnipeSettingsOverrides; // Takes precedence over profile settings and config
+  exitRules?: ExitRules;         // Take-profit, stop-loss and time exits after a fill
+  priority?: number;             // Higher priorities launch first, default 0
+  executeAt?: Date;              // Fixed launch time in server time, replaces the mainnet and pool triggers
+  preFireOffsetMs?: number;      // Fire this long before executeAt to absorb network latency
+  bondingTrigger?: BondingTrigger; // Fire on bonding curve progress or graduation instead
+  targetPoolId?: string;         // Pool to buy from, re-pointed when the curve graduates
+  history?: SnipeHistoryEntry[]; // Every test and execution, oldest first
   status: SnipeStatus;
+  statusHistory?: StatusTransition[]; // Every status change, oldest first
+}
+
+export type SnipeSettingsOverrides = Partial<Pick<ProfileSettings, 'maxRetries' | 'retryDelay' | 'slippageTolerance' | 'network'>>;
+
+export interface SnipeWallet {
+  address: string;                // FlashNet wallet address (Spark)
+  bitcoinAddress?: string;        // Bitcoin Taproot address for funding
+  encryptedMnemonic: string;
+}
+
+export interface StatusTransition {
+  from: SnipeStatus;
+  to: SnipeStatus;
+  reason: string;
+  timestamp: Date;
+}
+
+export interface SnipeHistoryEntry {
+  type: 'TEST' | 'REHEARSAL' | 'EXECUTION';
+  network: 'MAINNET' | 'REGTEST';
+  success: boolean;
+  simulated?: boolean;           // Paper run or regtest simulation, nothing was bought
+  cancelled?: boolean;
+  recovered?: boolean;
+  skipped?: string;              // Why the snipe was not allowed to execute
+  verification?: TokenVerification;
+  poolId?: string;
+  transactionHash?: string;
+  tokensReceived?: string;
+  price?: number;                // Sats per token
+  attempts: number;
+  executionTime: number;         // milliseconds
+  error?: string;
+  status: SnipeStatus;           // Snipe status after this entry
+  timestamp: Date;
+}
+
+export interface PriceLimits {
+  maxPricePerToken?: number;     // Max sats paid per token
+  maxPriceImpactPct?: number;    // Max simulated price impact percentage
+  minTokensOut?: string;         // Minimum simulated tokens out
+  onBreach: 'ABORT' | 'WAIT';    // Abort immediately or keep re-checking
+  waitTimeoutMs?: number;        // Deadline for re-checking when waiting
+  recheckIntervalMs?: number;    // Delay between re-checks when waiting
 }
 
 export interface PoolData {
@@ -44,14 +106,36 @@ export interface PoolData {
   lastUpdated: Date;
 }
 
+export interface BondingTrigger {
+  minProgressPct?: number;       // Buy once bonding progress reaches this
+  maxProgressPct?: number;       // Only buy while bonding progress is below this
+  onGraduation?: boolean;        // Buy right after the pool graduates
+}
+
+export interface SlippageSchedule {
+  startPct: number;              // Slippage tolerance of the first attempt
+  stepPct: number;               // Added on every retry
+  maxPct: number;                // Hard ceiling the tolerance never exceeds
+}
+
+export interface TrancheSchedule {
+  count: number;                 // Number of swaps amountBtc is split into
+  mode: 'FIXED' | 'IMPACT';      // Fixed spacing or wait for price impact to settle
+  spacingMs: number;             // Delay between tranches, or between re-checks in IMPACT mode
+  maxPriceImpactPct?: number;    // IMPACT mode: fire once simulated impact is below this
+  maxWaitMs?: number;            // IMPACT mode: give up on remaining tranches after this wait
+}
+
 export type SnipeStatus = 
   | 'CREATED'       // Just created, not tested
   | 'VALIDATED'     // Pool data fetched successfully
-  | 'TESTED'        // Successfully tested on regtest
+  | 'TESTED'        // Passed a regtest rehearsal
   | 'READY'         // Ready for mainnet execution
   | 'EXECUTING'     // Currently executing trade
   | 'SUCCESS'       // Successfully executed
   | 'FAILED'        // Execution failed
+  | 'LIMIT_BREACHED' // Aborted by a price limit
+  | 'UNRESOLVED'    // A swap may have filled, held until the journal is reconciled
   | 'RETRYING';     // Retrying after failure
 
 export interface ProfileLock {
@@ -64,6 +148,7 @@ export interface ProfileLock {
 export interface SnipeResult {
   snipeId: string;
   success: boolean;
+  poolId?: string;
   transactionHash?: string;
   tokensReceived?: string;
   actualPrice?: number;
@@ -72,4 +157,99 @@ export interface SnipeResult {
   error?: string;
   executionTime: number; // milliseconds
   attempts: number;
-}
\ No newline at end of file
+  simulated?: boolean;   // Paper run, no swap was submitted
+  limitBreach?: string;  // Price limit that stopped the swap
+  cancelled?: boolean;   // Stopped before a swap was submitted
+  recovered?: boolean;   // Rebuilt from the execution journal after a crash
+  skipped?: string;      // Why the snipe was not executed at all
+  unresolved?: boolean;  // A swap's outcome is unknown and left for journal reconciliation
+  reportedTokens?: string; // Tokens out as reported by the AMM
+  verifiedTokens?: string; // Token balance increase seen in the wallet after the swap
+  verification?: TokenVerification;
+  averagePrice?: number; // Average fill price across tranches (sats per token)
+  spentSats?: number;    // Sats spent by the swaps that filled
+  slippagePct?: number;  // Slippage tolerance of the attempt that filled
+  minAmountOut?: string; // Minimum output of the attempt that filled
+  tranches?: TrancheResult[];
+  wallets?: WalletLegResult[]; // Per-wallet outcomes of a fan-out snipe
+  attemptLog?: AttemptRecord[];
+}
+
+export type ErrorClass = 'RETRYABLE' | 'RATE_LIMITED' | 'FATAL';
+
+// UNVERIFIED when the wallet did not show the reported tokens before the verify timeout
+export type TokenVerification = 'VERIFIED' | 'UNVERIFIED';
+
+export interface AttemptRecord {
+  attempt: number;
+  errorClass: ErrorClass;
+  reason: string;        // Why the error was classified this way
+  error: string;
+  slippagePct?: number;  // Slippage tolerance of the attempt, once it got that far
+  minAmountOut?: string;
+  delayMs?: number;      // Wait before the next attempt, absent when giving up
+  timestamp: Date;
+}
+
+export interface TrancheResult {
+  index: number;
+  amountSats: number;
+  success: boolean;
+  poolId?: string;
+  transactionHash?: string;
+  tokensReceived?: string;
+  actualPrice?: number;
+  slippagePct?: number;
+  minAmountOut?: string;
+  reportedTokens?: string;
+  verifiedTokens?: string;
+  verification?: TokenVerification;
+  error?: string;
+  limitBreach?: string;
+  cancelled?: boolean;
+  skipped?: string;
+  unresolved?: boolean;
+  attempts: number;
+  attemptLog?: AttemptRecord[];
+  executionTime: number; // milliseconds
+}
+
+export interface RehearsalTiming {
+  walletMs: number;      // Restore and authenticate the wallet
+  balanceMs: number;     // Read the balance before the swap
+  poolMs: number;        // Find the pool
+  simulateMs: number;
+  swapMs: number;        // Submit the swap until the AMM answers
+  verifyMs: number;      // Wait for the token balance to show the fill
+  totalMs: number;
+}
+
+export interface RehearsalResult extends SnipeResult {
+  walletAddress: string;         // Regtest address of the snipe's primary wallet
+  amountSats: number;
+  tokenBalanceBefore: number;
+  tokenBalanceAfter?: number;
+  balanceVerified: boolean;      // Verified fill at or above the slippage-adjusted minimum
+  timing: RehearsalTiming;
+}
+
+export interface WalletLegResult {
+  walletAddress: string;
+  amountSats: number;
+  spentSats?: number;    // Less than amountSats when only some tranches filled
+  success: boolean;
+  poolId?: string;
+  transactionHash?: string;
+  tokensReceived?: string;
+  actualPrice?: number;
+  reportedTokens?: string;
+  verifiedTokens?: string;
+  verification?: TokenVerification;
+  error?: string;
+  limitBreach?: string;
+  cancelled?: boolean;
+  skipped?: string;
+  unresolved?: boolean;
+  attempts: number;
+  executionTime: number; // milliseconds
+}
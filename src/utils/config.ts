@@ -27,6 +27,25 @@ export interface AppConfig {
   maxRetryAttempts: number;
   initialRetryDelay: number;
   maxRetryDelay: number;
+  retryBackoff: 'EXPONENTIAL' | 'CONSTANT' | 'DECORRELATED_JITTER';
+
+  // Execution Settings
+  executionMode: 'PARALLEL' | 'SEQUENTIAL' | 'HYBRID';
+  maxConcurrentSnipes: number;
+  launchStaggerMs: number;        // Fixed wait between snipe launches
+  launchJitterMs: number;         // Random extra wait up to this value
+  hybridPriorityThreshold: number; // HYBRID runs snipes at or above this priority in parallel
+  simulationTimeoutMs: number;    // Fall back to a local quote when simulation is slower, 0 waits
+  quoteDeviationWarnPct: number;  // Warn when local quote and simulation differ by more
+  defaultSlippageTolerance: number; // Percent, used when neither profile nor snipe sets one
+  tokenVerifyTimeoutMs: number;   // How long to wait for bought tokens to show in the wallet, 0 skips the check
+
+  // Spending
+  dailySpendCapBtc?: string;      // Spend of all profiles per UTC day
+
+  // Trading Backend
+  tradingBackend: 'SDK' | 'FAKE'; // FAKE trades against an in-memory AMM, nothing leaves the machine
+  fakeBackendScenario?: string;   // JSON file with the fake's pools, latencies and failures
 }
 
 export class ConfigManager {
@@ -133,7 +152,26 @@ export class ConfigManager {
       mainnetPollInterval: this.parseInt(process.env.MAINNET_POLL_INTERVAL, 2000),
       maxRetryAttempts: this.parseInt(process.env.MAX_RETRY_ATTEMPTS, 20),
       initialRetryDelay: this.parseInt(process.env.INITIAL_RETRY_DELAY, 2000),
-      maxRetryDelay: this.parseInt(process.env.MAX_RETRY_DELAY, 5000)
+      maxRetryDelay: this.parseInt(process.env.MAX_RETRY_DELAY, 5000),
+      retryBackoff: this.parseRetryBackoff(process.env.RETRY_BACKOFF),
+
+      // Execution Settings
+      executionMode: this.parseExecutionMode(process.env.EXECUTION_MODE),
+      maxConcurrentSnipes: this.parseInt(process.env.MAX_CONCURRENT_SNIPES, 5),
+      launchStaggerMs: this.parseInt(process.env.LAUNCH_STAGGER_MS, 0),
+      launchJitterMs: this.parseInt(process.env.LAUNCH_JITTER_MS, 0),
+      hybridPriorityThreshold: this.parseInt(process.env.HYBRID_PRIORITY_THRESHOLD, 1),
+      simulationTimeoutMs: this.parseInt(process.env.SIMULATION_TIMEOUT_MS, 2000),
+      quoteDeviationWarnPct: this.parseInt(process.env.QUOTE_DEVIATION_WARN_PCT, 5),
+      defaultSlippageTolerance: this.parseInt(process.env.DEFAULT_SLIPPAGE_TOLERANCE, 10),
+      tokenVerifyTimeoutMs: this.parseInt(process.env.TOKEN_VERIFY_TIMEOUT_MS, 15000),
+
+      // Spending
+      dailySpendCapBtc: process.env.DAILY_SPEND_CAP_BTC || undefined,
+
+      // Trading Backend
+      tradingBackend: this.parseTradingBackend(process.env.TRADING_BACKEND),
+      fakeBackendScenario: process.env.FAKE_BACKEND_SCENARIO || undefined
     };
   }
 
@@ -194,6 +232,33 @@ export class ConfigManager {
       errors.push('MAX_RETRY_DELAY must be greater than or equal to INITIAL_RETRY_DELAY');
     }
 
+    if (this.config.maxConcurrentSnipes < 1 || this.config.maxConcurrentSnipes > 100) {
+      errors.push('MAX_CONCURRENT_SNIPES must be between 1 and 100');
+    }
+
+    if (this.config.launchStaggerMs < 0 || this.config.launchJitterMs < 0) {
+      errors.push('LAUNCH_STAGGER_MS and LAUNCH_JITTER_MS must not be negative');
+    }
+
+    if (this.config.simulationTimeoutMs < 0 || this.config.quoteDeviationWarnPct < 0) {
+      errors.push('SIMULATION_TIMEOUT_MS and QUOTE_DEVIATION_WARN_PCT must not be negative');
+    }
+
+    if (this.config.tokenVerifyTimeoutMs < 0) {
+      errors.push('TOKEN_VERIFY_TIMEOUT_MS must not be negative');
+    }
+
+    if (this.config.defaultSlippageTolerance <= 0 || this.config.defaultSlippageTolerance > 50) {
+      errors.push('DEFAULT_SLIPPAGE_TOLERANCE must be above 0 and at most 50');
+    }
+
+    if (this.config.dailySpendCapBtc) {
+      const validation = ValidationService.validateBTCAmount(this.config.dailySpendCapBtc);
+      if (!validation.valid) {
+        errors.push(`Invalid DAILY_SPEND_CAP_BTC: ${validation.error}`);
+      }
+    }
+
     // Warn about missing optional configuration
     const warnings: string[] = [];
 
@@ -209,6 +274,10 @@ export class ConfigManager {
       warnings.push('No DISCORD_WEBHOOK_URL provided - Discord notifications disabled');
     }
 
+    if (this.config.tradingBackend === 'FAKE') {
+      warnings.push('TRADING_BACKEND=FAKE - swaps run against an in-memory AMM');
+    }
+
     // Output validation results
     if (errors.length > 0) {
       console.error('❌ Configuration validation failed:');
@@ -280,6 +349,33 @@ export class ConfigManager {
     return 'REGTEST'; // Default to regtest for safety
   }
 
+  /**
+   * Parse retry backoff strategy with validation
+   */
+  private parseRetryBackoff(value: string | undefined): 'EXPONENTIAL' | 'CONSTANT' | 'DECORRELATED_JITTER' {
+    if (value === 'EXPONENTIAL' || value === 'CONSTANT' || value === 'DECORRELATED_JITTER') {
+      return value;
+    }
+    return 'EXPONENTIAL';
+  }
+
+  /**
+   * Parse execution mode with validation
+   */
+  private parseExecutionMode(value: string | undefined): 'PARALLEL' | 'SEQUENTIAL' | 'HYBRID' {
+    if (value === 'PARALLEL' || value === 'SEQUENTIAL' || value === 'HYBRID') {
+      return value;
+    }
+    return 'PARALLEL';
+  }
+
+  /**
+   * Parse trading backend with validation
+   */
+  private parseTradingBackend(value: string | undefined): 'SDK' | 'FAKE' {
+    return value === 'FAKE' ? 'FAKE' : 'SDK';
+  }
+
   /**
    * Create a .env file template
    */
@@ -307,7 +403,26 @@ DEFAULT_NETWORK=REGTEST
 MAINNET_POLL_INTERVAL=2000
 MAX_RETRY_ATTEMPTS=20
 INITIAL_RETRY_DELAY=2000
-MAX_RETRY_DELAY=5000`;
+MAX_RETRY_DELAY=5000
+RETRY_BACKOFF=EXPONENTIAL
+
+# Execution Settings
+EXECUTION_MODE=PARALLEL
+MAX_CONCURRENT_SNIPES=5
+LAUNCH_STAGGER_MS=0
+LAUNCH_JITTER_MS=0
+HYBRID_PRIORITY_THRESHOLD=1
+SIMULATION_TIMEOUT_MS=2000
+QUOTE_DEVIATION_WARN_PCT=5
+DEFAULT_SLIPPAGE_TOLERANCE=10
+TOKEN_VERIFY_TIMEOUT_MS=15000
+
+# Spending (leave empty for no daily cap)
+DAILY_SPEND_CAP_BTC=
+
+# Trading Backend (SDK or FAKE for an offline in-memory AMM)
+TRADING_BACKEND=SDK
+FAKE_BACKEND_SCENARIO=`;
 
     return template;
   }
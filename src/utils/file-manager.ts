@@ -7,6 +7,9 @@ export class FileManager {
   private static readonly PROFILES_DIR = 'profiles';
   private static readonly CONFIG_FILE = 'config.json';
   private static readonly WALLETS_FILE = 'wallets.json';
+  private static readonly POSITIONS_FILE = 'positions.json';
+  private static readonly JOURNAL_FILE = 'journal.jsonl';
+  private static readonly SPEND_LEDGER_FILE = 'spend-ledger.jsonl';
 
   /**
    * Initialize the profiles directory structure
@@ -135,6 +138,54 @@ export class FileManager {
     }
   }
 
+  /**
+   * Append one JSON record as a line and flush it to disk before returning
+   */
+  public static async appendJsonLine<T>(filePath: string, data: T): Promise<void> {
+    let handle: fs.FileHandle | undefined;
+
+    try {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+      handle = await fs.open(filePath, 'a');
+      await handle.write(`${JSON.stringify(data)}\n`);
+      await handle.sync();
+    } catch (error) {
+      throw new Error(`Failed to append to file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      await handle?.close();
+    }
+  }
+
+  /**
+   * Read a JSON lines file, skipping a torn last line left by a crash
+   */
+  public static async readJsonLines<T>(filePath: string): Promise<T[]> {
+    try {
+      const content = await fs.readFile(filePath, 'utf8');
+      const records: T[] = [];
+
+      for (const line of content.split('\n')) {
+        if (!line.trim()) {
+          continue;
+        }
+
+        try {
+          records.push(JSON.parse(line));
+        } catch {
+          console.warn(`⚠️  Skipping unreadable line in ${path.basename(filePath)}`);
+        }
+      }
+
+      return records;
+    } catch (error) {
+      if ((error as any).code === 'ENOENT') {
+        return [];
+      }
+      throw new Error(`Failed to read JSON lines file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Get profile configuration file path
    */
@@ -149,6 +200,27 @@ export class FileManager {
     return path.join(profilePath, this.WALLETS_FILE);
   }
 
+  /**
+   * Get profile positions file path
+   */
+  public static getPositionsFilePath(profilePath: string): string {
+    return path.join(profilePath, this.POSITIONS_FILE);
+  }
+
+  /**
+   * Get profile execution journal file path
+   */
+  public static getJournalFilePath(profilePath: string): string {
+    return path.join(profilePath, this.JOURNAL_FILE);
+  }
+
+  /**
+   * Get the spend ledger file path shared by all profiles
+   */
+  public static getSpendLedgerFilePath(baseDir: string): string {
+    return path.join(baseDir, this.SPEND_LEDGER_FILE);
+  }
+
   /**
    * Check if a path exists
    */
@@ -0,0 +1,125 @@
+export interface QuoteReserves {
+  reserveIn: number;             // Reserve of the asset being sold to the pool
+  reserveOut: number;            // Reserve of the asset being bought
+  lpFeeBps: number;
+  hostFeeBps: number;
+  maxAmountOut?: number;         // Real output reserve when pricing off a bonding curve's virtual reserves
+}
+
+export interface SwapQuote {
+  amountIn: number;
+  amountOut: number;
+  lpFee: number;                 // Taken from the input
+  hostFee: number;               // Taken from the input
+  spotPrice: number;             // Input per unit of output before the swap
+  executionPrice: number;        // Input per unit of output for this swap, fees included
+  priceImpactPct: number;        // How far the swap moves the price, fees excluded
+}
+
+/**
+ * Quotes constant-product and bonding-curve swaps from pool reserves, without a network round trip
+ */
+export class QuoteEngine {
+  private static readonly BPS = 10000;
+
+  /**
+   * Read the reserves of a pool for a swap in either direction, null when the pool lacks them
+   */
+  public static reservesFromPool(pool: any, inputIsAssetA: boolean): QuoteReserves | null {
+    const realA = parseFloat(pool?.assetAReserve ?? '0');
+    const realB = parseFloat(pool?.assetBReserve ?? '0');
+
+    // Bonding curves price off virtual reserves, but can only pay out what they really hold
+    const virtualA = parseFloat(pool?.virtualReserveA ?? '0');
+    const virtualB = parseFloat(pool?.virtualReserveB ?? '0');
+    const isCurve = virtualA > 0 && virtualB > 0;
+
+    const reserveA = isCurve ? virtualA : realA;
+    const reserveB = isCurve ? virtualB : realB;
+
+    if (!(reserveA > 0) || !(reserveB > 0)) {
+      return null;
+    }
+
+    return {
+      reserveIn: inputIsAssetA ? reserveA : reserveB,
+      reserveOut: inputIsAssetA ? reserveB : reserveA,
+      lpFeeBps: Number(pool?.lpFeeBps) || 0,
+      hostFeeBps: Number(pool?.hostFeeBps) || 0,
+      maxAmountOut: isCurve ? (inputIsAssetA ? realB : realA) : undefined
+    };
+  }
+
+  /**
+   * Quote the output of selling an amount into the pool
+   */
+  public static quote(reserves: QuoteReserves, amountIn: number): SwapQuote {
+    const { reserveIn, reserveOut } = reserves;
+    const lpFee = Math.floor(amountIn * reserves.lpFeeBps / this.BPS);
+    const hostFee = Math.floor(amountIn * reserves.hostFeeBps / this.BPS);
+    const netIn = Math.max(0, amountIn - lpFee - hostFee);
+
+    // x * y = k, the output is whatever keeps the product constant after the input lands
+    let amountOut = Math.floor(reserveOut * netIn / (reserveIn + netIn));
+    if (reserves.maxAmountOut !== undefined) {
+      amountOut = Math.min(amountOut, Math.floor(reserves.maxAmountOut));
+    }
+
+    const spotPrice = reserveIn / reserveOut;
+
+    return {
+      amountIn,
+      amountOut,
+      lpFee,
+      hostFee,
+      spotPrice,
+      executionPrice: amountOut > 0 ? amountIn / amountOut : Infinity,
+      priceImpactPct: amountOut > 0 ? (1 - amountOut / (netIn / spotPrice)) * 100 : 100
+    };
+  }
+
+  /**
+   * Get the input needed to receive an amount, null when the pool cannot pay it out
+   */
+  public static amountInFor(reserves: QuoteReserves, amountOut: number): number | null {
+    const { reserveIn, reserveOut } = reserves;
+    const limit = Math.min(reserveOut, reserves.maxAmountOut ?? Infinity);
+    if (amountOut <= 0 || amountOut >= limit) {
+      return null;
+    }
+
+    const netIn = reserveIn * amountOut / (reserveOut - amountOut);
+    return Math.ceil(netIn / (1 - this.getFeeRate(reserves)));
+  }
+
+  /**
+   * Get the largest input that keeps price impact at or below a percentage
+   */
+  public static maxAmountInForImpact(reserves: QuoteReserves, maxImpactPct: number): number {
+    if (maxImpactPct <= 0) {
+      return 0;
+    }
+
+    const impact = Math.min(maxImpactPct, 99.99) / 100;
+    const netIn = reserves.reserveIn * impact / (1 - impact);
+    return Math.floor(netIn / (1 - this.getFeeRate(reserves)));
+  }
+
+  /**
+   * Get how far a local quote is from a server simulation, as a percentage of the simulation
+   */
+  public static deviationPct(quotedOut: number, simulatedOut: number): number {
+    if (simulatedOut <= 0) {
+      return quotedOut > 0 ? 100 : 0;
+    }
+
+    return Math.abs(quotedOut - simulatedOut) / simulatedOut * 100;
+  }
+
+  /**
+   * Get the share of the input taken as fees
+   */
+  private static getFeeRate(reserves: QuoteReserves): number {
+    return (reserves.lpFeeBps + reserves.hostFeeBps) / this.BPS;
+  }
+}
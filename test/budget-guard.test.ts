@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { BudgetGuard } from '../src/core/budget-guard';
+import { BudgetLimits } from '../src/types/budget';
+
+const limits: BudgetLimits = { profileName: 'alpha', maxTotalSpendSats: 10000, maxSpendPerTokenSats: 6000 };
+
+describe('BudgetGuard', () => {
+  let baseDir: string;
+
+  beforeEach(async () => {
+    baseDir = await fs.mkdtemp(path.join(os.tmpdir(), 'budget-guard-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  test('reserves spends within every cap and refuses the one that exceeds a cap', async () => {
+    const guard = new BudgetGuard(baseDir);
+
+    const first = await guard.reserve(limits, { snipeId: 's1', tokenAddress: 'tokenA', amountSats: 4000 });
+    const second = await guard.reserve(limits, { snipeId: 's2', tokenAddress: 'tokenA', amountSats: 4000 });
+
+    assert.equal(first.allowed, true);
+    assert.equal(second.allowed, false);
+    assert.equal(second.scope, 'PER_TOKEN');
+    assert.deepEqual(await guard.getUsage('alpha'), {
+      profileSpentSats: 4000,
+      dailySpentSats: 4000,
+      perTokenSpentSats: { tokenA: 4000 }
+    });
+  });
+
+  test('gives released reservations back to the budget and keeps spent ones', async () => {
+    const guard = new BudgetGuard(baseDir);
+
+    const spent = await guard.reserve(limits, { snipeId: 's1', tokenAddress: 'tokenA', amountSats: 3000 });
+    const released = await guard.reserve(limits, { snipeId: 's2', tokenAddress: 'tokenB', amountSats: 5000 });
+    await guard.settle(spent.reservationId!, true);
+    await guard.settle(released.reservationId!, false);
+
+    const usage = await guard.getUsage('alpha');
+    assert.equal(usage.profileSpentSats, 3000);
+    assert.equal(usage.perTokenSpentSats.tokenB, undefined);
+  });
+
+  test('keeps counting an unsettled reservation as spent', async () => {
+    await new BudgetGuard(baseDir).reserve(limits, { snipeId: 's1', tokenAddress: 'tokenA', amountSats: 6000 });
+
+    // A second process sees the reservation of the first one in the shared ledger
+    const other = new BudgetGuard(baseDir);
+    const decision = await other.reserve(limits, { snipeId: 's2', tokenAddress: 'tokenB', amountSats: 5000 });
+
+    assert.equal(decision.allowed, false);
+    assert.equal(decision.scope, 'PROFILE_TOTAL');
+  });
+
+  test('enforces the daily cap across profiles', async () => {
+    const guard = new BudgetGuard(baseDir);
+
+    await guard.reserve({ profileName: 'alpha', dailySpendCapSats: 5000 }, { snipeId: 's1', tokenAddress: 'tokenA', amountSats: 3000 });
+    const decision = await guard.reserve(
+      { profileName: 'beta', dailySpendCapSats: 5000 },
+      { snipeId: 's2', tokenAddress: 'tokenB', amountSats: 3000 }
+    );
+
+    assert.equal(decision.allowed, false);
+    assert.equal(decision.scope, 'DAILY');
+  });
+
+  test('warns instead of failing when settling an unknown reservation', async (t) => {
+    const warn = t.mock.method(console, 'warn', () => undefined);
+    const guard = new BudgetGuard(baseDir);
+
+    await guard.settle('spend_missing', false);
+
+    assert.equal(warn.mock.callCount(), 1);
+    assert.match(String(warn.mock.calls[0]?.arguments[0]), /spend_missing is unknown or already settled/);
+  });
+});
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ExecutionJournal } from '../src/core/execution-journal';
+import { FlashNetWalletManager, FlashNetWallet } from '../src/core/flashnet-wallet-manager';
+import { FakeTradingBackend } from '../src/services/fake-trading-backend';
+import { BTC_ASSET_ADDRESS } from '../src/types/backend';
+import { Profile } from '../src/types/profile';
+
+const TOKEN = 'token_journal_test';
+
+describe('ExecutionJournal', () => {
+  const walletManager = new FlashNetWalletManager();
+  const backend = FakeTradingBackend.getInstance();
+  const poolId = backend.addPool({ tokenAddress: TOKEN, tokenReserve: 1000000, btcReserve: 100000 });
+
+  let profileDir: string;
+  let journal: ExecutionJournal;
+  let wallet: FlashNetWallet;
+  let profile: Profile;
+
+  beforeEach(async () => {
+    profileDir = await fs.mkdtemp(path.join(os.tmpdir(), 'execution-journal-'));
+    journal = new ExecutionJournal(profileDir);
+
+    wallet = await walletManager.generateWallet({ network: 'REGTEST' });
+    backend.fundWallet(wallet.address, 100000);
+
+    profile = {
+      name: 'alpha',
+      createdAt: new Date(),
+      lastUsed: new Date(),
+      settings: {
+        defaultAmount: '0.001',
+        maxRetries: 3,
+        retryDelay: 1000,
+        enableDiscordAlerts: false,
+        slippageTolerance: 10,
+        network: 'REGTEST'
+      },
+      snipes: [{
+        id: 'snipe_1',
+        tokenAddress: TOKEN,
+        amountBtc: '0.00001',
+        walletAddress: wallet.address,
+        encryptedMnemonic: wallet.encryptedMnemonic!,
+        isActive: true,
+        createdAt: new Date(),
+        status: 'READY'
+      }]
+    };
+  });
+
+  afterEach(async () => {
+    walletManager.releaseWallet(wallet);
+    await fs.rm(profileDir, { recursive: true, force: true });
+  });
+
+  const buy = () => walletManager.executeSwap(wallet, {
+    poolId,
+    assetInAddress: BTC_ASSET_ADDRESS,
+    assetOutAddress: TOKEN,
+    amountIn: '1000',
+    minAmountOut: '0',
+    maxSlippageBps: 1000
+  });
+
+  const submit = (swapId: string, tokenBalanceBefore?: number) => journal.append({
+    swapId,
+    snipeId: 'snipe_1',
+    stage: 'SUBMITTED',
+    network: 'REGTEST',
+    poolId,
+    assetOutToken: TOKEN,
+    amountSats: 1000,
+    tokenBalanceBefore
+  });
+
+  test('reports swaps that never reached the SDK as not submitted', async () => {
+    await journal.append({ swapId: 'swap_intent', snipeId: 'snipe_1', stage: 'INTENT', poolId });
+
+    const reports = await journal.reconcile(profile, walletManager);
+
+    assert.deepEqual(reports.map(r => [r.swapId, r.outcome]), [['swap_intent', 'NOT_SUBMITTED']]);
+  });
+
+  test('resolves submitted swaps from the token balance', async () => {
+    const { amountOut } = await buy();
+
+    // One snapshot predates the tokens, the other was taken after they arrived
+    await submit('swap_filled', 0);
+    await submit('swap_unfilled', Number(amountOut));
+
+    const reports = await journal.reconcile(profile, walletManager);
+    const byId = new Map(reports.map(report => [report.swapId, report]));
+
+    assert.equal(byId.get('swap_unfilled')?.outcome, 'NOT_FILLED');
+    assert.equal(byId.get('swap_filled')?.outcome, 'FILLED');
+    assert.equal(byId.get('swap_filled')?.tokensReceived, amountOut);
+
+    // Reconciled swaps are resolved and not checked again
+    assert.deepEqual(await journal.reconcile(profile, walletManager), []);
+
+    const recovered = await journal.getRecoveredFills();
+    assert.equal(recovered.length, 1);
+    assert.equal(recovered[0]?.tokensReceived, Number(amountOut));
+  });
+
+  test('keeps unresolved submitted swaps across a RECORDED marker', async () => {
+    await submit('swap_pending', 0);
+    await buy();
+    await journal.markRecorded(['snipe_1']);
+
+    const reports = await journal.reconcile(profile, walletManager);
+    assert.deepEqual(reports.map(r => [r.swapId, r.outcome]), [['swap_pending', 'FILLED']]);
+
+    // Once resolved, the next marker drops the swap
+    await journal.markRecorded(['snipe_1']);
+    assert.deepEqual(await journal.getRecoveredFills(), []);
+  });
+
+  test('leaves a swap unknown when the wallet holds tokens but no snapshot was taken', async () => {
+    await submit('swap_no_snapshot');
+    await buy();
+
+    const reports = await journal.reconcile(profile, walletManager);
+
+    assert.equal(reports[0]?.outcome, 'UNKNOWN');
+    assert.match(reports[0]?.error || '', /Wallet holds/);
+  });
+});
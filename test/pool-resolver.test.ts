@@ -0,0 +1,16 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PoolResolver } from '../src/core/pool-resolver';
+import { BTC_ASSET_ADDRESS } from '../src/types/backend';
+
+describe('PoolResolver.matchesToken', () => {
+  test('matches the token on either side of the pool', () => {
+    assert.equal(PoolResolver.matchesToken({ assetAAddress: 'ABCDEF', assetBAddress: BTC_ASSET_ADDRESS }, 'abcdef'), true);
+    assert.equal(PoolResolver.matchesToken({ assetAAddress: BTC_ASSET_ADDRESS, assetBAddress: 'abcdef' }, 'ABCDEF'), true);
+  });
+
+  test('matches a token address that names the pool itself', () => {
+    assert.equal(PoolResolver.matchesToken({ assetAAddress: 'abcdef', lpPublicKey: 'pool_1' }, 'pool_1'), true);
+    assert.equal(PoolResolver.matchesToken({ assetAAddress: 'abcdef', lpPublicKey: 'pool_1' }, 'fedcba'), false);
+  });
+});
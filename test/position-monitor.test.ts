@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { once } from 'events';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { PositionMonitor, PositionExitEvent } from '../src/core/position-monitor';
+import { FlashNetWalletManager, FlashNetWallet } from '../src/core/flashnet-wallet-manager';
+import { FakeTradingBackend } from '../src/services/fake-trading-backend';
+import { BTC_ASSET_ADDRESS } from '../src/types/backend';
+import { Profile, Snipe, SnipeResult } from '../src/types/profile';
+
+const TOKEN = 'token_position_test';
+
+describe('PositionMonitor', () => {
+  const walletManager = new FlashNetWalletManager();
+  const backend = FakeTradingBackend.getInstance();
+  const poolId = backend.addPool({ tokenAddress: TOKEN, tokenReserve: 1000000, btcReserve: 100000 });
+
+  let baseDir: string;
+  let monitor: PositionMonitor;
+  let wallet: FlashNetWallet;
+  let snipe: Snipe;
+  let profile: Profile;
+  let result: SnipeResult;
+
+  beforeEach(async () => {
+    baseDir = await fs.mkdtemp(path.join(os.tmpdir(), 'position-monitor-'));
+    monitor = new PositionMonitor(baseDir, { pollInterval: 10 });
+
+    wallet = await walletManager.generateWallet({ network: 'REGTEST' });
+    backend.fundWallet(wallet.address, 100000);
+
+    // Only one of two tranches filled, so half the snipe's amount was spent
+    const { amountOut, txId } = await walletManager.executeSwap(wallet, {
+      poolId,
+      assetInAddress: BTC_ASSET_ADDRESS,
+      assetOutAddress: TOKEN,
+      amountIn: '1000',
+      minAmountOut: '0',
+      maxSlippageBps: 1000
+    });
+
+    snipe = {
+      id: 'snipe_1',
+      tokenAddress: TOKEN,
+      amountBtc: '0.00002',
+      walletAddress: wallet.address,
+      encryptedMnemonic: wallet.encryptedMnemonic!,
+      isActive: true,
+      createdAt: new Date(),
+      status: 'SUCCESS',
+      settingsOverrides: { network: 'REGTEST' },
+      exitRules: { maxHoldMs: 0 }
+    };
+
+    profile = {
+      name: 'alpha',
+      createdAt: new Date(),
+      lastUsed: new Date(),
+      settings: { defaultAmount: '0.00001', enableDiscordAlerts: false },
+      snipes: [snipe]
+    };
+
+    result = {
+      snipeId: snipe.id,
+      success: true,
+      poolId,
+      transactionHash: txId,
+      tokensReceived: amountOut,
+      verifiedTokens: amountOut,
+      verification: 'VERIFIED',
+      spentSats: 1000,
+      executionTime: 0,
+      attempts: 2
+    };
+  });
+
+  afterEach(async () => {
+    monitor.destroy();
+    walletManager.releaseWallet(wallet);
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  test('costs a position at the sats its filled swaps spent', async () => {
+    const position = await monitor.openPosition(profile, snipe, result);
+
+    assert.equal(position?.costSats, 1000);
+    assert.equal(position?.entryPrice, 1000 / Number(result.tokensReceived));
+  });
+
+  test('does not open positions for snipes split across wallets', async () => {
+    const fanOut: Snipe = { ...snipe, fanOutWallets: [{ address: 'sp1other', encryptedMnemonic: 'encrypted' }] };
+
+    assert.equal(await monitor.openPosition(profile, fanOut, result), null);
+  });
+
+  test('records a timed out exit sell that went through instead of selling again', async (t) => {
+    const swap = backend.executeSwap.bind(backend);
+    const executeSwap = t.mock.method(backend, 'executeSwap', async (...args: Parameters<typeof swap>) => {
+      await swap(...args);
+      throw new Error('request timed out');
+    });
+
+    await monitor.openPosition(profile, snipe, result);
+    const exited = once(monitor, 'position:exit');
+    await monitor.startMonitoring(profile);
+
+    const [event] = await exited as [PositionExitEvent];
+
+    assert.equal(executeSwap.mock.callCount(), 1);
+    assert.equal(event.position.status, 'CLOSED');
+    assert.equal(event.entry.error, undefined);
+    assert.ok(event.entry.sats > 0);
+  });
+});
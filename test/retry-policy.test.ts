@@ -0,0 +1,58 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RetryPolicy } from '../src/core/retry-policy';
+
+const policy = new RetryPolicy({ maxRetries: 3, baseDelay: 100, maxDelay: 1000 });
+
+describe('RetryPolicy', () => {
+  test('honours the retry-after of a rate limit', () => {
+    const error = new Error(JSON.stringify({ type: 'RATE_LIMITED', message: 'Rate limit exceeded', retryAfter: 7 }));
+    const classification = policy.classify(error);
+
+    assert.equal(classification.errorClass, 'RATE_LIMITED');
+    assert.equal(classification.retryAfterMs, 7000);
+    assert.equal(policy.getDelay(1, 0, classification), 7000);
+  });
+
+  test('retries network errors reported by the client', () => {
+    const error = new Error(JSON.stringify({ type: 'TIMEOUT', message: 'Request timeout' }));
+    assert.deepEqual(policy.classify(error), { errorClass: 'RETRYABLE', reason: 'network timeout' });
+  });
+
+  test('classifies API errors by status code', () => {
+    const serverError = new Error(JSON.stringify({ code: '503', message: 'Unavailable', timestamp: '' }));
+    const rejected = new Error(JSON.stringify({ code: '400', message: 'Insufficient balance', timestamp: '' }));
+
+    assert.equal(policy.classify(serverError).errorClass, 'RETRYABLE');
+    assert.deepEqual(policy.classify(rejected), { errorClass: 'FATAL', reason: 'insufficient balance' });
+  });
+
+  test('ignores payload fields of the wrong type', () => {
+    const error = new Error(JSON.stringify({ type: 42, retryAfter: 'soon' }));
+    assert.deepEqual(policy.classify(error), { errorClass: 'RETRYABLE', reason: 'unclassified error' });
+  });
+
+  test('classifies status codes and system error codes on error objects', () => {
+    assert.equal(policy.classify(Object.assign(new Error('Too many'), { response: { status: 429 } })).errorClass, 'RATE_LIMITED');
+    assert.deepEqual(
+      policy.classify(Object.assign(new Error('reset'), { code: 'ECONNRESET' })),
+      { errorClass: 'RETRYABLE', reason: 'connection ECONNRESET' }
+    );
+  });
+
+  test('never retries fatal errors and stops at the attempt limit', () => {
+    const fatal = policy.classify(new Error('Failed to restore wallet: bad mnemonic'));
+    const retryable = policy.classify(new Error('something odd'));
+
+    assert.equal(fatal.errorClass, 'FATAL');
+    assert.equal(policy.shouldRetry(1, fatal), false);
+    assert.equal(policy.shouldRetry(2, retryable), true);
+    assert.equal(policy.shouldRetry(3, retryable), false);
+  });
+
+  test('backs off exponentially up to the maximum delay', () => {
+    const retryable = policy.classify(new Error('something odd'));
+
+    assert.deepEqual([1, 2, 3, 5].map(attempt => policy.getDelay(attempt, 0, retryable)), [100, 200, 400, 1000]);
+  });
+});
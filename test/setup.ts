@@ -0,0 +1,6 @@
+// Tests trade against the in-memory AMM, with wallets encrypted under a throwaway key
+process.env.TRADING_BACKEND = 'FAKE';
+process.env.ENCRYPTION_KEY = 'test-only-encryption-key-0123456789abcdef';
+
+// The in-memory AMM credits tokens at once, so a short wait is enough to verify a fill
+process.env.TOKEN_VERIFY_TIMEOUT_MS = '500';
@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { SnipeEngine } from '../src/core/snipe-engine';
+import { BudgetGuard } from '../src/core/budget-guard';
+import { ExecutionJournal } from '../src/core/execution-journal';
+import { FlashNetWalletManager, FlashNetWallet } from '../src/core/flashnet-wallet-manager';
+import { ProfileManager } from '../src/core/profile-manager';
+import { FakeTradingBackend } from '../src/services/fake-trading-backend';
+import { Profile } from '../src/types/profile';
+
+const TOKEN = 'token_engine_test';
+
+describe('SnipeEngine', () => {
+  const walletManager = new FlashNetWalletManager();
+  const backend = FakeTradingBackend.getInstance();
+  backend.addPool({ tokenAddress: TOKEN, tokenReserve: 1000000, btcReserve: 100000 });
+
+  let baseDir: string;
+  let engine: SnipeEngine;
+  let wallet: FlashNetWallet;
+  let profile: Profile;
+
+  beforeEach(async () => {
+    baseDir = await fs.mkdtemp(path.join(os.tmpdir(), 'snipe-engine-'));
+    engine = new SnipeEngine(baseDir, { maxRetries: 3, retryDelay: 1, executionMode: 'SEQUENTIAL' });
+
+    wallet = await walletManager.generateWallet({ network: 'REGTEST' });
+    backend.fundWallet(wallet.address, 100000);
+
+    profile = {
+      name: 'alpha',
+      createdAt: new Date(),
+      lastUsed: new Date(),
+      settings: {
+        defaultAmount: '0.00001',
+        maxRetries: 3,
+        retryDelay: 1,
+        enableDiscordAlerts: false,
+        slippageTolerance: 10,
+        network: 'REGTEST'
+      },
+      snipes: [{
+        id: 'snipe_1',
+        tokenAddress: TOKEN,
+        amountBtc: '0.00001',
+        walletAddress: wallet.address,
+        encryptedMnemonic: wallet.encryptedMnemonic!,
+        isActive: true,
+        createdAt: new Date(),
+        status: 'READY'
+      }]
+    };
+  });
+
+  afterEach(async () => {
+    engine.stop();
+    walletManager.releaseWallet(wallet);
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  const journalEntries = () =>
+    new ExecutionJournal(new ProfileManager(baseDir).getProfilePath(profile.name)).readEntries();
+
+  test('keeps a fill that landed although the submission failed, without buying again', async (t) => {
+    const swap = backend.executeSwap.bind(backend);
+    const executeSwap = t.mock.method(backend, 'executeSwap', async (...args: Parameters<typeof swap>) => {
+      await swap(...args);
+      throw new Error('socket hang up');
+    });
+
+    const [result] = await engine.executeSnipes(profile);
+
+    assert.equal(result?.success, true);
+    assert.equal(executeSwap.mock.callCount(), 1);
+    assert.equal((await journalEntries()).at(-1)?.stage, 'CONFIRMED');
+  });
+
+  test('leaves a submission without tokens unresolved, keeping its spend reserved until reconciled', async (t) => {
+    const executeSwap = t.mock.method(backend, 'executeSwap', async () => {
+      throw new Error('socket hang up');
+    });
+
+    const [result] = await engine.executeSnipes(profile);
+
+    assert.equal(result?.success, false);
+    assert.equal(result?.unresolved, true);
+    assert.equal(executeSwap.mock.callCount(), 1);
+
+    const submitted = (await journalEntries()).at(-1);
+    assert.equal(submitted?.stage, 'SUBMITTED');
+    assert.ok(submitted?.reservationId);
+
+    const guard = new BudgetGuard(baseDir);
+    assert.equal((await guard.getUsage(profile.name)).profileSpentSats, 1000);
+
+    // A later run proves the swap did not fill and hands its spend back
+    await guard.settle(submitted.reservationId, false);
+    assert.equal((await guard.getUsage(profile.name)).profileSpentSats, 0);
+  });
+
+  test('retries a swap the AMM rejected', async (t) => {
+    const swap = backend.executeSwap.bind(backend);
+    let calls = 0;
+    const executeSwap = t.mock.method(backend, 'executeSwap', async (...args: Parameters<typeof swap>) =>
+      ++calls === 1 ? { accepted: false, error: 'Pool busy' } : swap(...args));
+
+    const [result] = await engine.executeSnipes(profile);
+
+    assert.equal(result?.success, true);
+    assert.equal(executeSwap.mock.callCount(), 2);
+  });
+
+  test('keeps the wallet of a swap in flight when stopped, releasing it once the run ends', async (t) => {
+    const release = t.mock.method(backend, 'releaseWallet');
+    const swap = backend.executeSwap.bind(backend);
+    let releasedDuringSwap = -1;
+    t.mock.method(backend, 'executeSwap', async (...args: Parameters<typeof swap>) => {
+      engine.stop();
+      releasedDuringSwap = release.mock.callCount();
+      return swap(...args);
+    });
+
+    const [result] = await engine.executeSnipes(profile);
+
+    assert.equal(result?.success, true);
+    assert.equal(releasedDuringSwap, 0);
+    assert.equal(release.mock.callCount(), 1);
+  });
+
+  test('verifies a fill against the tokens that reached the wallet', async () => {
+    const [result] = await engine.executeSnipes(profile);
+
+    assert.equal(result?.success, true);
+    assert.equal(result?.verification, 'VERIFIED');
+    assert.equal(result?.verifiedTokens, result?.tokensReceived);
+    assert.equal(result?.reportedTokens, result?.tokensReceived);
+  });
+
+  test('flags a fill whose tokens never reach the wallet as UNVERIFIED', async (t) => {
+    t.mock.method(backend, 'executeSwap', async () => ({ accepted: true, amountOut: '9000', txId: 'tx_unverified' }));
+
+    const [result] = await engine.executeSnipes(profile);
+
+    assert.equal(result?.success, true);
+    assert.equal(result?.verification, 'UNVERIFIED');
+    assert.equal(result?.reportedTokens, '9000');
+    assert.equal(result?.verifiedTokens, '0');
+    assert.equal(result?.tokensReceived, '9000');
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { EffectiveSettings, SnipeSettings } from '../src/core/snipe-settings';
+import { ProfileManager } from '../src/core/profile-manager';
+import { Snipe } from '../src/types/profile';
+
+const base: EffectiveSettings = { maxRetries: 20, retryDelay: 2000, slippageTolerance: 10, network: 'MAINNET' };
+
+function makeSnipe(settingsOverrides?: Snipe['settingsOverrides']): Snipe {
+  return {
+    id: 'snipe_test',
+    tokenAddress: 'token_test',
+    amountBtc: '0.001',
+    walletAddress: 'sp1wallet',
+    encryptedMnemonic: 'encrypted',
+    isActive: true,
+    createdAt: new Date(),
+    status: 'READY',
+    settingsOverrides
+  };
+}
+
+describe('SnipeSettings', () => {
+  test('falls back to the config layer', () => {
+    const resolved = SnipeSettings.resolve(undefined, makeSnipe(), base);
+
+    assert.equal(resolved.slippageTolerance, 10);
+    assert.deepEqual(resolved.sources, { maxRetries: 'CONFIG', retryDelay: 'CONFIG', slippageTolerance: 'CONFIG', network: 'CONFIG' });
+  });
+
+  test('lets snipe overrides win over profile settings, and profile settings over config', () => {
+    const resolved = SnipeSettings.resolve(
+      { maxRetries: 5, slippageTolerance: 15, network: 'REGTEST' },
+      makeSnipe({ slippageTolerance: 3 }),
+      base
+    );
+
+    assert.equal(resolved.maxRetries, 5);
+    assert.equal(resolved.retryDelay, 2000);
+    assert.equal(resolved.slippageTolerance, 3);
+    assert.equal(resolved.network, 'REGTEST');
+    assert.deepEqual(resolved.sources, { maxRetries: 'PROFILE', retryDelay: 'CONFIG', slippageTolerance: 'SNIPE', network: 'PROFILE' });
+  });
+
+  test('skips unset layer values', () => {
+    const resolved = SnipeSettings.resolve({ maxRetries: undefined }, makeSnipe({ retryDelay: undefined }), base);
+
+    assert.equal(resolved.maxRetries, 20);
+    assert.equal(resolved.sources.retryDelay, 'CONFIG');
+  });
+
+  test('validates overrides', () => {
+    assert.equal(SnipeSettings.validateOverrides({ maxRetries: 3, slippageTolerance: 50 }), null);
+    assert.match(SnipeSettings.validateOverrides({ maxRetries: 0 }) || '', /Max retries/);
+    assert.match(SnipeSettings.validateOverrides({ retryDelay: 50 }) || '', /Retry delay/);
+    assert.match(SnipeSettings.validateOverrides({ slippageTolerance: 0 }) || '', /Slippage/);
+  });
+
+  test('describes where each value came from', () => {
+    const lines = SnipeSettings.describe(SnipeSettings.resolve(undefined, makeSnipe({ slippageTolerance: 3 }), base));
+    assert.ok(lines.includes('Slippage: 3% (snipe)'));
+    assert.ok(lines.includes('Retries: 20'));
+  });
+
+  test('leaves the settings of a new profile to the config layer', async (t) => {
+    const baseDir = await fs.mkdtemp(path.join(os.tmpdir(), 'snipe-settings-'));
+    t.after(() => fs.rm(baseDir, { recursive: true, force: true }));
+    t.mock.method(console, 'log', () => undefined);
+
+    const profile = await new ProfileManager(baseDir).createProfile('alpha');
+    const resolved = SnipeSettings.resolve(profile.settings, makeSnipe(), base);
+
+    assert.equal(resolved.network, 'MAINNET');
+    assert.deepEqual(resolved.sources, { maxRetries: 'CONFIG', retryDelay: 'CONFIG', slippageTolerance: 'CONFIG', network: 'CONFIG' });
+  });
+});
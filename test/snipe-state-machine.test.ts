@@ -0,0 +1,76 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SnipeStateMachine, SnipeTransitionError } from '../src/core/snipe-state-machine';
+import { Snipe, SnipeStatus } from '../src/types/profile';
+
+function makeSnipe(status: SnipeStatus, withWallet = true): Snipe {
+  return {
+    id: 'snipe_test',
+    tokenAddress: 'token_test',
+    amountBtc: '0.001',
+    walletAddress: withWallet ? 'sp1wallet' : '',
+    encryptedMnemonic: withWallet ? 'encrypted' : '',
+    isActive: true,
+    createdAt: new Date(),
+    status
+  };
+}
+
+describe('SnipeStateMachine', () => {
+  test('follows the lifecycle from CREATED to SUCCESS and records each step', () => {
+    const snipe = makeSnipe('CREATED');
+
+    for (const status of ['VALIDATED', 'TESTED', 'READY', 'EXECUTING', 'RETRYING', 'SUCCESS'] as SnipeStatus[]) {
+      SnipeStateMachine.transition(snipe, status, `to ${status}`);
+    }
+
+    assert.equal(snipe.status, 'SUCCESS');
+    assert.deepEqual(snipe.statusHistory?.map(t => t.to), ['VALIDATED', 'TESTED', 'READY', 'EXECUTING', 'RETRYING', 'SUCCESS']);
+  });
+
+  test('rejects skipping the regtest rehearsal', () => {
+    const snipe = makeSnipe('VALIDATED');
+
+    assert.throws(() => SnipeStateMachine.transition(snipe, 'READY', 'skip'), SnipeTransitionError);
+    assert.equal(snipe.status, 'VALIDATED');
+  });
+
+  test('does not count staying in the same status as a transition', () => {
+    assert.equal(SnipeStateMachine.canTransition('EXECUTING', 'EXECUTING'), false);
+    assert.equal(SnipeStateMachine.tryTransition(makeSnipe('READY'), 'READY', 'again'), false);
+  });
+
+  test('only lets snipes with a wallet and an executable status execute', () => {
+    assert.doesNotThrow(() => SnipeStateMachine.assertExecutable(makeSnipe('READY')));
+    assert.throws(() => SnipeStateMachine.assertExecutable(makeSnipe('FAILED')), /cannot execute from FAILED/);
+    assert.throws(() => SnipeStateMachine.assertExecutable(makeSnipe('EXECUTING')), /cannot execute from EXECUTING/);
+    assert.throws(() => SnipeStateMachine.assertExecutable(makeSnipe('SUCCESS')), /reset it to buy again/);
+    assert.throws(() => SnipeStateMachine.assertExecutable(makeSnipe('UNRESOLVED')), /must be reconciled first/);
+    assert.throws(() => SnipeStateMachine.assertExecutable(makeSnipe('READY', false)), /has no wallet/);
+  });
+
+  test('refuses wallet-bound statuses without a wallet', () => {
+    assert.throws(() => SnipeStateMachine.transition(makeSnipe('CREATED', false), 'VALIDATED', 'no wallet'), /without a wallet/);
+  });
+
+  test('resets a filled snipe back to VALIDATED', () => {
+    const snipe = makeSnipe('SUCCESS');
+    SnipeStateMachine.reset(snipe, 'buy again');
+
+    assert.equal(snipe.status, 'VALIDATED');
+    assert.equal(snipe.statusHistory?.at(-1)?.reason, 'Reset: buy again');
+  });
+
+  test('only settles an unresolved snipe through reconciliation', () => {
+    assert.equal(SnipeStateMachine.tryTransition(makeSnipe('UNRESOLVED'), 'READY', 'arm'), false);
+    assert.equal(SnipeStateMachine.tryTransition(makeSnipe('UNRESOLVED'), 'FAILED', 'not filled'), true);
+  });
+
+  test('records a fill proven by the journal from any status', () => {
+    const snipe = makeSnipe('FAILED');
+    SnipeStateMachine.recordFill(snipe, 'recovered');
+
+    assert.equal(snipe.status, 'SUCCESS');
+    assert.deepEqual(snipe.statusHistory?.map(t => [t.from, t.to]), [['FAILED', 'SUCCESS']]);
+  });
+});